@@ -0,0 +1,173 @@
+import { ConfigService } from './config';
+import { getHourInTimezone } from './dateFormat';
+import { StateStore } from './stateStore';
+import { PollResult, TruthSocialService } from './truthSocialService';
+
+const MINUTE_MS = 60 * 1000;
+// How soon to try again when the state store wasn't ready for the poll
+const DEFERRED_RETRY_MS = 30 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Archive window used to learn quiet hours, and the least data we'd trust
+const LEARNING_DAYS = 28;
+const MIN_POSTS_FOR_LEARNING = 50;
+// An hour with less than this share of the average hourly activity counts as quiet
+const QUIET_HOUR_RATIO = 0.25;
+
+// Polls Truth Social on a timer that adapts to activity, quiet hours, rate limits and a daily credit budget
+export class AdaptivePoller {
+  private learnedQuietHours = new Set<number>();
+  private quietHoursLearnedAt = 0;
+  private consecutiveFailures = 0;
+  private creditsUsed = 0;
+  private budgetDay = '';
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private config: ConfigService, private db: StateStore, private truthSocialService: TruthSocialService) {}
+
+  // Settings are looked up for every poll, a reload applies from the next one
+  private get settings() {
+    return this.config.current.polling;
+  }
+
+  // Polls apply STARTUP_MODE until one completes, every later one is scheduled from the previous result
+  start(initialDelayMs: number): void {
+    const { intervalMinutes, activeIntervalMinutes, quietIntervalMinutes, dailyCreditBudget } = this.settings;
+    console.log(
+      `Starting adaptive Truth Social polling: every ${intervalMinutes}m, ` +
+      `${activeIntervalMinutes}m after activity, ${quietIntervalMinutes}m in quiet hours` +
+      (dailyCreditBudget > 0 ? `, budget ${dailyCreditBudget} credits/day` : '')
+    );
+    this.schedule(initialDelayMs, true);
+  }
+
+  private schedule(delayMs: number, isStartup = false): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.poll(isStartup), delayMs);
+  }
+
+  private async poll(isStartup: boolean): Promise<void> {
+    let result: PollResult = { requests: 0, failed: true, rateLimited: false };
+    try {
+      if (isStartup) {
+        console.log('Checking for Truth Social posts made while offline...');
+      } else {
+        console.log('Polling Truth Social for new posts...');
+      }
+      result = await this.truthSocialService.fetchLatestPosts(isStartup);
+    } catch (error) {
+      console.error('Error polling Truth Social:', error);
+    }
+
+    this.spendCredits(result.requests);
+    await this.refreshQuietHours();
+
+    const delay = this.nextDelay(result);
+    console.log(`Next Truth Social poll in ${Math.round(delay / 1000)}s`);
+    // A deferred or failed startup poll hasn't caught up on the posts made while offline yet
+    this.schedule(delay, isStartup && (result.failed || result.deferred === true));
+  }
+
+  private nextDelay(result: PollResult): number {
+    let delay: number;
+
+    if (result.deferred) {
+      // No request was made, so this neither counts as a failure nor spends the budget
+      return DEFERRED_RETRY_MS;
+    }
+
+    if (result.failed) {
+      // Jittered exponential backoff, so restarts and retries don't line up with other clients
+      this.consecutiveFailures++;
+      const { intervalMinutes, maxBackoffMinutes } = this.settings;
+      const backoff = Math.min(intervalMinutes * 2 ** (this.consecutiveFailures - 1), maxBackoffMinutes) * MINUTE_MS;
+      delay = backoff / 2 + Math.random() * backoff / 2;
+    } else {
+      this.consecutiveFailures = 0;
+      delay = this.intervalForNow();
+    }
+
+    if (result.retryAfterMs !== undefined) {
+      delay = Math.max(delay, result.retryAfterMs);
+    }
+
+    return Math.max(delay, this.budgetDelay());
+  }
+
+  private intervalForNow(): number {
+    const { intervalMinutes, activeIntervalMinutes, activeWindowMinutes, quietIntervalMinutes, timeZone } = this.settings;
+
+    const lastPostAt = this.truthSocialService.lastPostAt;
+    if (lastPostAt && Date.now() - lastPostAt.getTime() < activeWindowMinutes * MINUTE_MS) {
+      return activeIntervalMinutes * MINUTE_MS;
+    }
+
+    // Configured quiet hours win over learned ones
+    const quietHours = this.settings.quietHours ? new Set(this.settings.quietHours) : this.learnedQuietHours;
+    if (quietHours.has(getHourInTimezone(new Date(), timeZone))) {
+      return quietIntervalMinutes * MINUTE_MS;
+    }
+
+    return intervalMinutes * MINUTE_MS;
+  }
+
+  // Spread the remaining credits over the rest of the (UTC) day, or wait for tomorrow once they're gone
+  private budgetDelay(): number {
+    const budget = this.settings.dailyCreditBudget;
+    if (budget === 0) return 0;
+    this.resetBudgetIfNewDay();
+
+    const now = Date.now();
+    const msUntilTomorrow = DAY_MS - (now % DAY_MS);
+    // A poll costs at least one request per account, more when backfilling
+    const creditsPerPoll = this.truthSocialService.handleCount;
+    const pollsLeft = Math.floor((budget - this.creditsUsed) / creditsPerPoll);
+
+    if (pollsLeft <= 0) {
+      console.warn(`Daily API credit budget of ${budget} used up, pausing polling until 00:00 UTC`);
+      return msUntilTomorrow;
+    }
+    return msUntilTomorrow / pollsLeft;
+  }
+
+  private spendCredits(requests: number): void {
+    this.resetBudgetIfNewDay();
+    this.creditsUsed += requests;
+  }
+
+  private resetBudgetIfNewDay(): void {
+    const today = new Date().toISOString().slice(0, 10);
+    if (today !== this.budgetDay) {
+      this.budgetDay = today;
+      this.creditsUsed = 0;
+    }
+  }
+
+  // Relearn once a day, hours with little activity over the last few weeks poll slower
+  private async refreshQuietHours(): Promise<void> {
+    if (this.settings.quietHours || Date.now() - this.quietHoursLearnedAt < DAY_MS || !this.db.isInitialized) {
+      return;
+    }
+    this.quietHoursLearnedAt = Date.now();
+
+    try {
+      const to = new Date();
+      const from = new Date(to.getTime() - LEARNING_DAYS * DAY_MS);
+      const posts = await this.db.getArchivedPostsBetween(from, to, 10000);
+      if (posts.length < MIN_POSTS_FOR_LEARNING) {
+        this.learnedQuietHours = new Set();
+        return;
+      }
+
+      const counts = new Array(24).fill(0);
+      const { timeZone } = this.settings;
+      posts.forEach(doc => counts[getHourInTimezone(new Date(doc.createdAt), timeZone)]++);
+      const threshold = (posts.length / 24) * QUIET_HOUR_RATIO;
+
+      this.learnedQuietHours = new Set(counts.flatMap((count, hour) => count < threshold ? [hour] : []));
+      console.log(`Learned quiet hours (${timeZone}): ${[...this.learnedQuietHours].join(', ') || 'none'}`);
+    } catch (error) {
+      console.error('Error learning quiet hours from the archive:', error);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { AppConfig, ConfigService, PostSourceName, StateBackend } from './config';
+import { StateStore } from './stateStore';
+import { CouchDbStore } from './couchDbStore';
+import { FileStateStore } from './fileStateStore';
+import { DiscordClient } from './discordClient';
+import { RecentPosts } from './recentPosts';
+import { UrgencyClassifier } from './urgencyTiers';
+import { FailoverPostSource, PostSource } from './postSource';
+import { ScrapeCreatorsSource } from './scrapeCreatorsSource';
+import { MastodonSource } from './mastodonSource';
+import { NotifierHub, createNotifiers } from './notifiers';
+import { PostChangeTracker } from './postChangeTracker';
+import { Outbox } from './outbox';
+import { MediaMirror } from './mediaMirror';
+import { IncidentTracker } from './incidents';
+import { TruthSocialService } from './truthSocialService';
+import { AdaptivePoller } from './adaptivePoller';
+import { RedditService } from './redditService';
+import { DigestService } from './digestService';
+import { Scheduler } from './scheduler';
+import { HealthServer } from './healthServer';
+import { Metrics } from './metrics';
+
+const STATE_STORES: Record<StateBackend, (config: AppConfig) => StateStore> = {
+  couchdb: config => new CouchDbStore(config.couchdb),
+  file: config => new FileStateStore(config.storage.file)
+};
+
+// The configured backend, or another one when migrating between them
+export function createStateStore(config: AppConfig, backend: StateBackend = config.storage.backend): StateStore {
+  return STATE_STORES[backend](config);
+}
+
+const POST_SOURCES: Record<PostSourceName, new (settings: AppConfig['sources']) => PostSource> = {
+  scrapecreators: ScrapeCreatorsSource,
+  mastodon: MastodonSource
+};
+
+// The configured provider, wrapped with the fallback when one is set
+export function createPostSource(settings: AppConfig['sources']): PostSource {
+  const primary = new POST_SOURCES[settings.primary](settings);
+  return settings.fallback ? new FailoverPostSource([primary, new POST_SOURCES[settings.fallback](settings)]) : primary;
+}
+
+// Builds every service with its dependencies. Nothing connects or starts until start() is called.
+export function createApp(config: ConfigService) {
+  const metrics = new Metrics();
+  const db = createStateStore(config.current);
+  const recentPosts = new RecentPosts();
+  const urgencyClassifier = new UrgencyClassifier(config);
+  const mediaMirror = new MediaMirror(config);
+  const discord = new DiscordClient(config, db, urgencyClassifier, recentPosts, mediaMirror);
+  const incidents = new IncidentTracker(config, discord);
+  const postChangeTracker = new PostChangeTracker(config, db, discord);
+  const outbox = new Outbox(config, db, discord, postChangeTracker, mediaMirror, metrics);
+  const notifiers = new NotifierHub(createNotifiers(config.current.notifiers), urgencyClassifier, metrics);
+
+  const truthSocialService = new TruthSocialService(
+    config,
+    db,
+    discord,
+    createPostSource(config.current.sources),
+    outbox,
+    notifiers,
+    postChangeTracker,
+    recentPosts,
+    urgencyClassifier,
+    incidents,
+    metrics
+  );
+
+  const adaptivePoller = new AdaptivePoller(config, db, truthSocialService);
+  const redditService = new RedditService(config, db, discord);
+  const digestService = new DigestService(config, db, discord);
+  const scheduler = new Scheduler(adaptivePoller, outbox, redditService, digestService, db, incidents);
+  const healthServer = new HealthServer(config, db, discord, truthSocialService, metrics);
+
+  return {
+    config,
+    db,
+    discord,
+    truthSocialService,
+    scheduler,
+    healthServer,
+
+    start(): void {
+      // Not awaited, the services wait for isInitialized while the store keeps trying to connect
+      db.connect();
+      discord.start();
+      scheduler.start();
+      // Health checks and Prometheus metrics
+      healthServer.start();
+    }
+  };
+}
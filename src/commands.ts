@@ -0,0 +1,611 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ChannelType,
+  ChatInputCommandInteraction,
+  ComponentType,
+  EmbedBuilder,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+  SlashCommandSubcommandBuilder,
+  TextChannel
+} from 'discord.js';
+import { ArchivedPost, StateStore, DeliveryMode, DigestSchedule } from './stateStore';
+import { buildTruthSocialEmbeds, truncateText } from './embeds';
+import { ClockFormat, DateFormat, formatDateForDisplay, isValidLocale, isValidTimeZone } from './dateFormat';
+import { RecentPosts } from './recentPosts';
+import { UrgencyClassifier } from './urgencyTiers';
+import {
+  FilterRule,
+  describeFilterRule,
+  isEmptyFilterRule,
+  matchesFilterRule,
+  validateFilterRule
+} from './filterRules';
+
+// Services the commands work with, handed over by the Discord client
+export interface CommandContext {
+  db: StateStore;
+  recentPosts: RecentPosts;
+  urgencyClassifier: UrgencyClassifier;
+  // How dates are written in a channel, its /timeformat choices on top of the DISPLAY_* settings
+  dateFormatFor(channelId: string): Promise<DateFormat>;
+}
+
+export interface SlashCommand {
+  data: Pick<SlashCommandBuilder, 'name' | 'toJSON'>;
+  execute(interaction: ChatInputCommandInteraction, context: CommandContext): Promise<void>;
+}
+
+// Resolve the channel option, falling back to the channel the command was run in
+function resolveTargetChannel(interaction: ChatInputCommandInteraction): TextChannel | null {
+  const channel = interaction.options.getChannel('channel') ?? interaction.channel;
+  return channel instanceof TextChannel ? channel : null;
+}
+
+const DELIVERY_CHOICES = [
+  { name: 'Real-time alerts', value: 'realtime' },
+  { name: 'Digest only', value: 'digest' },
+  { name: 'Real-time alerts and digest', value: 'both' }
+];
+
+const DELIVERY_LABELS: Record<DeliveryMode, string> = {
+  realtime: 'real-time alerts',
+  digest: 'digest only',
+  both: 'real-time alerts and digest'
+};
+
+const subscribe: SlashCommand = {
+  data: new SlashCommandBuilder()
+    .setName('subscribe')
+    .setDescription('Post Truth Social alerts in a channel')
+    .addChannelOption(option => option
+      .setName('channel')
+      .setDescription('Channel to post alerts in (defaults to this channel)')
+      .addChannelTypes(ChannelType.GuildText))
+    .addStringOption(option => option
+      .setName('delivery')
+      .setDescription('Per-post alerts, a daily digest, or both (default: real-time)')
+      .addChoices(...DELIVERY_CHOICES))
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+    .setDMPermission(false),
+
+  async execute(interaction, { db }) {
+    const channel = resolveTargetChannel(interaction);
+    if (!channel || !interaction.guildId) {
+      await interaction.reply({ content: 'Alerts can only be posted in a server text channel.', ephemeral: true });
+      return;
+    }
+
+    // Check up front so the subscription doesn't fail silently on the first post
+    const me = interaction.guild?.members.me;
+    const permissions = me ? channel.permissionsFor(me) : null;
+    if (!permissions?.has([PermissionFlagsBits.ViewChannel, PermissionFlagsBits.SendMessages, PermissionFlagsBits.EmbedLinks])) {
+      await interaction.reply({
+        content: `I need the View Channel, Send Messages and Embed Links permissions in ${channel} first.`,
+        ephemeral: true
+      });
+      return;
+    }
+
+    const delivery = (interaction.options.getString('delivery') ?? 'realtime') as DeliveryMode;
+    const created = await db.addSubscription(interaction.guildId, channel.id, interaction.user.id, delivery);
+    await interaction.reply({
+      content: created
+        ? `✅ ${channel} will now receive Truth Social ${DELIVERY_LABELS[delivery]}.`
+        : `${channel} is already subscribed.`,
+      ephemeral: true
+    });
+  }
+};
+
+const unsubscribe: SlashCommand = {
+  data: new SlashCommandBuilder()
+    .setName('unsubscribe')
+    .setDescription('Stop posting Truth Social alerts in a channel')
+    .addChannelOption(option => option
+      .setName('channel')
+      .setDescription('Channel to stop posting alerts in (defaults to this channel)')
+      .addChannelTypes(ChannelType.GuildText))
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+    .setDMPermission(false),
+
+  async execute(interaction, { db }) {
+    const channel = resolveTargetChannel(interaction);
+    if (!channel) {
+      await interaction.reply({ content: 'Please pick a server text channel.', ephemeral: true });
+      return;
+    }
+
+    const removed = await db.removeSubscription(channel.id);
+    await interaction.reply({
+      content: removed
+        ? `🛑 ${channel} will no longer receive Truth Social alerts.`
+        : `${channel} is not subscribed.`,
+      ephemeral: true
+    });
+  }
+};
+
+const subscriptions: SlashCommand = {
+  data: new SlashCommandBuilder()
+    .setName('subscriptions')
+    .setDescription('List the channels in this server that receive Truth Social alerts')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+    .setDMPermission(false),
+
+  async execute(interaction, { db }) {
+    if (!interaction.guildId) {
+      await interaction.reply({ content: 'This command only works in a server.', ephemeral: true });
+      return;
+    }
+
+    const guildSubscriptions = await db.getSubscriptions(interaction.guildId);
+    const content = guildSubscriptions.length > 0
+      ? 'Channels receiving Truth Social alerts:\n' +
+        guildSubscriptions.map(sub => {
+          const delivery = sub.delivery ?? 'realtime';
+          const schedule = delivery === 'realtime' ? '' : `, ${sub.digestSchedule ?? 'daily'}`;
+          const ping = sub.mentionRoleId ? `, pings <@&${sub.mentionRoleId}>` : '';
+          const times = sub.dateFormat ? `, times in ${describeDateFormat(sub.dateFormat)}` : '';
+          return `• <#${sub.channelId}>: ${DELIVERY_LABELS[delivery]}${schedule}${ping}${times} (added by <@${sub.createdBy}>)`;
+        }).join('\n')
+      : 'No channels in this server are subscribed. Use `/subscribe` to add one.';
+
+    await interaction.reply({ content, ephemeral: true, allowedMentions: { parse: [] } });
+  }
+};
+
+const delivery: SlashCommand = {
+  data: new SlashCommandBuilder()
+    .setName('delivery')
+    .setDescription('Choose between per-post alerts and digests for a channel')
+    .addStringOption(option => option
+      .setName('mode')
+      .setDescription('How the channel receives posts')
+      .setRequired(true)
+      .addChoices(...DELIVERY_CHOICES))
+    .addStringOption(option => option
+      .setName('schedule')
+      .setDescription('Which digest to send (default: daily)')
+      .addChoices(
+        { name: 'Daily', value: 'daily' },
+        { name: 'Weekly', value: 'weekly' }
+      ))
+    .addChannelOption(option => option
+      .setName('channel')
+      .setDescription('Subscribed channel (defaults to this channel)')
+      .addChannelTypes(ChannelType.GuildText))
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+    .setDMPermission(false),
+
+  async execute(interaction, { db }) {
+    const channel = resolveTargetChannel(interaction);
+    if (!channel) {
+      await interaction.reply({ content: 'Please pick a server text channel.', ephemeral: true });
+      return;
+    }
+
+    const mode = interaction.options.getString('mode', true) as DeliveryMode;
+    const schedule = (interaction.options.getString('schedule') ?? undefined) as DigestSchedule | undefined;
+    const updated = await db.setSubscriptionDelivery(channel.id, mode, schedule);
+    await interaction.reply({
+      content: updated
+        ? `${channel} will now receive ${DELIVERY_LABELS[mode]}` +
+          (mode === 'realtime' ? '.' : ` (${updated.digestSchedule ?? 'daily'} digest).`)
+        : `${channel} is not subscribed. Use \`/subscribe\` first.`,
+      ephemeral: true
+    });
+  }
+};
+
+const mention: SlashCommand = {
+  data: new SlashCommandBuilder()
+    .setName('mention')
+    .setDescription('Ping a role when an urgent post is announced in a channel')
+    .addRoleOption(option => option
+      .setName('role')
+      .setDescription('Role to ping (leave empty to stop pinging)'))
+    .addChannelOption(option => option
+      .setName('channel')
+      .setDescription('Subscribed channel (defaults to this channel)')
+      .addChannelTypes(ChannelType.GuildText))
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+    .setDMPermission(false),
+
+  async execute(interaction, { db, urgencyClassifier }) {
+    const channel = resolveTargetChannel(interaction);
+    if (!channel) {
+      await interaction.reply({ content: 'Please pick a server text channel.', ephemeral: true });
+      return;
+    }
+
+    const role = interaction.options.getRole('role');
+    const updated = await db.setSubscriptionMentionRole(channel.id, role?.id);
+    await interaction.reply({
+      content: !updated
+        ? `${channel} is not subscribed. Use \`/subscribe\` first.`
+        : role
+          ? `${channel} will ping ${role} for ${urgencyClassifier.mentionTier} posts.`
+          : `${channel} will no longer ping a role.`,
+      ephemeral: true,
+      allowedMentions: { parse: [] }
+    });
+  }
+};
+
+// "Europe/Berlin, de-DE, 24h", with only the parts the channel set
+function describeDateFormat(dateFormat: Partial<DateFormat>): string {
+  return [dateFormat.timeZone, dateFormat.locale, dateFormat.clock].filter(Boolean).join(', ');
+}
+
+const timeformat: SlashCommand = {
+  data: new SlashCommandBuilder()
+    .setName('timeformat')
+    .setDescription('Choose how dates are written in a channel\'s alerts (leave everything empty to reset)')
+    .addStringOption(option => option
+      .setName('timezone')
+      .setDescription('IANA time zone, e.g. Europe/London or Asia/Tokyo'))
+    .addStringOption(option => option
+      .setName('locale')
+      .setDescription('Language and region, e.g. en-GB or de-DE'))
+    .addStringOption(option => option
+      .setName('clock')
+      .setDescription('12-hour or 24-hour clock')
+      .addChoices(
+        { name: '12-hour', value: '12h' },
+        { name: '24-hour', value: '24h' }
+      ))
+    .addChannelOption(option => option
+      .setName('channel')
+      .setDescription('Subscribed channel (defaults to this channel)')
+      .addChannelTypes(ChannelType.GuildText))
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+    .setDMPermission(false),
+
+  async execute(interaction, { db, dateFormatFor }) {
+    const channel = resolveTargetChannel(interaction);
+    if (!channel) {
+      await interaction.reply({ content: 'Please pick a server text channel.', ephemeral: true });
+      return;
+    }
+
+    const timeZone = interaction.options.getString('timezone')?.trim() || undefined;
+    const locale = interaction.options.getString('locale')?.trim() || undefined;
+    const clock = (interaction.options.getString('clock') ?? undefined) as ClockFormat | undefined;
+    if (timeZone && !isValidTimeZone(timeZone)) {
+      await interaction.reply({ content: `\`${truncateText(timeZone, 50)}\` is not a time zone, use a name like Europe/London.`, ephemeral: true });
+      return;
+    }
+    if (locale && !isValidLocale(locale)) {
+      await interaction.reply({ content: `\`${truncateText(locale, 50)}\` is not a supported locale, use one like en-GB.`, ephemeral: true });
+      return;
+    }
+
+    // Options left empty keep what the channel had, no options at all resets it
+    const current = (await db.getSubscription(channel.id))?.dateFormat;
+    const reset = !timeZone && !locale && !clock;
+    const dateFormat = reset ? undefined : { ...current, ...(timeZone && { timeZone }), ...(locale && { locale }), ...(clock && { clock }) };
+    const updated = await db.setSubscriptionDateFormat(channel.id, dateFormat);
+    if (!updated) {
+      await interaction.reply({ content: `${channel} is not subscribed. Use \`/subscribe\` first.`, ephemeral: true });
+      return;
+    }
+
+    const example = formatDateForDisplay(new Date(), await dateFormatFor(channel.id));
+    await interaction.reply({
+      content: reset
+        ? `${channel} is back to the default time format, dates look like **${example}**.`
+        : `Dates in ${channel} now look like **${example}**. The 🕒 Posted field always shows each reader's own local time.`,
+      ephemeral: true
+    });
+  }
+};
+
+// Options shared by /filter set and /filter test
+function addFilterRuleOptions(subcommand: SlashCommandSubcommandBuilder): SlashCommandSubcommandBuilder {
+  return subcommand
+    .addStringOption(option => option
+      .setName('include')
+      .setDescription('Comma-separated keywords, at least one must appear'))
+    .addStringOption(option => option
+      .setName('exclude')
+      .setDescription('Comma-separated keywords that drop the post'))
+    .addStringOption(option => option
+      .setName('regex')
+      .setDescription('Case-insensitive regex the post must match'))
+    .addStringOption(option => option
+      .setName('exclude_regex')
+      .setDescription('Case-insensitive regex that drops the post'))
+    .addStringOption(option => option
+      .setName('media')
+      .setDescription('Limit posts by media')
+      .addChoices(
+        { name: 'Any post', value: 'any' },
+        { name: 'Only posts with media', value: 'required' },
+        { name: 'Only text posts', value: 'none' }
+      ))
+    .addBooleanOption(option => option
+      .setName('reposts')
+      .setDescription('Include ReTruths (default: true)'))
+    .addBooleanOption(option => option
+      .setName('quotes')
+      .setDescription('Include quote posts (default: true)'))
+    .addBooleanOption(option => option
+      .setName('replies')
+      .setDescription('Include replies (default: true)'));
+}
+
+function parseList(value: string | null): string[] | undefined {
+  const items = value?.split(',').map(item => item.trim()).filter(item => item.length > 0);
+  return items && items.length > 0 ? items : undefined;
+}
+
+// Build a rule from the command options, dropping conditions that weren't given
+function parseFilterRule(interaction: ChatInputCommandInteraction): FilterRule {
+  const media = interaction.options.getString('media');
+  const regex = interaction.options.getString('regex');
+  const excludeRegex = interaction.options.getString('exclude_regex');
+
+  const rule: FilterRule = {
+    includeKeywords: parseList(interaction.options.getString('include')),
+    excludeKeywords: parseList(interaction.options.getString('exclude')),
+    includeRegex: regex ? [regex] : undefined,
+    excludeRegex: excludeRegex ? [excludeRegex] : undefined,
+    hasMedia: media === 'required' || undefined,
+    textOnly: media === 'none' || undefined,
+    excludeReposts: interaction.options.getBoolean('reposts') === false || undefined,
+    excludeQuotes: interaction.options.getBoolean('quotes') === false || undefined,
+    excludeReplies: interaction.options.getBoolean('replies') === false || undefined
+  };
+
+  return Object.fromEntries(Object.entries(rule).filter(([, value]) => value !== undefined));
+}
+
+function truncate(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length <= maxLength ? singleLine : `${singleLine.substring(0, maxLength - 1)}…`;
+}
+
+const filter: SlashCommand = {
+  data: new SlashCommandBuilder()
+    .setName('filter')
+    .setDescription('Choose which Truth Social posts a channel receives')
+    .addSubcommand(subcommand => addFilterRuleOptions(subcommand
+      .setName('set')
+      .setDescription('Set the filter rule for a subscribed channel')
+      .addChannelOption(option => option
+        .setName('channel')
+        .setDescription('Subscribed channel (defaults to this channel)')
+        .addChannelTypes(ChannelType.GuildText))))
+    .addSubcommand(subcommand => subcommand
+      .setName('clear')
+      .setDescription('Remove the filter so a channel receives every post')
+      .addChannelOption(option => option
+        .setName('channel')
+        .setDescription('Subscribed channel (defaults to this channel)')
+        .addChannelTypes(ChannelType.GuildText)))
+    .addSubcommand(subcommand => subcommand
+      .setName('show')
+      .setDescription('Show the filter rule for a channel')
+      .addChannelOption(option => option
+        .setName('channel')
+        .setDescription('Subscribed channel (defaults to this channel)')
+        .addChannelTypes(ChannelType.GuildText)))
+    .addSubcommand(subcommand => addFilterRuleOptions(subcommand
+      .setName('test')
+      .setDescription('Try a rule against recent posts (uses this channel\'s rule if no options are given)')))
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageChannels)
+    .setDMPermission(false),
+
+  async execute(interaction, { db, recentPosts }) {
+    const subcommand = interaction.options.getSubcommand();
+
+    if (subcommand === 'test') {
+      let rule = parseFilterRule(interaction);
+      if (isEmptyFilterRule(rule) && interaction.channelId) {
+        rule = (await db.getSubscription(interaction.channelId))?.filter ?? rule;
+      }
+
+      try {
+        validateFilterRule(rule);
+      } catch (error: any) {
+        await interaction.reply({ content: error.message, ephemeral: true });
+        return;
+      }
+
+      const posts = recentPosts.get(15);
+      if (posts.length === 0) {
+        await interaction.reply({ content: 'No recent posts to test against yet, try again after the next poll.', ephemeral: true });
+        return;
+      }
+
+      const results = posts.map(post => ({ post, matched: matchesFilterRule(post, rule) }));
+      const matchedCount = results.filter(result => result.matched).length;
+      const lines = results.map(({ post, matched }) =>
+        `${matched ? '✅' : '❌'} @${post.account.username}: ${truncate(post.content || '(media only)', 70)}`);
+
+      await interaction.reply({
+        content: `**Rule**\n${describeFilterRule(rule)}` +
+          `\n\n**${matchedCount} of ${posts.length} recent posts would be announced**\n` +
+          lines.join('\n'),
+        ephemeral: true,
+        allowedMentions: { parse: [] }
+      });
+      return;
+    }
+
+    const channel = resolveTargetChannel(interaction);
+    if (!channel) {
+      await interaction.reply({ content: 'Please pick a server text channel.', ephemeral: true });
+      return;
+    }
+
+    if (subcommand === 'show') {
+      const subscription = await db.getSubscription(channel.id);
+      await interaction.reply({
+        content: subscription
+          ? `Filter for ${channel}:\n${describeFilterRule(subscription.filter)}`
+          : `${channel} is not subscribed. Use \`/subscribe\` first.`,
+        ephemeral: true
+      });
+      return;
+    }
+
+    let rule: FilterRule | undefined;
+    if (subcommand === 'set') {
+      rule = parseFilterRule(interaction);
+      try {
+        validateFilterRule(rule);
+      } catch (error: any) {
+        await interaction.reply({ content: error.message, ephemeral: true });
+        return;
+      }
+      if (isEmptyFilterRule(rule)) {
+        rule = undefined;
+      }
+    }
+
+    const updated = await db.setSubscriptionFilter(channel.id, rule);
+    await interaction.reply({
+      content: updated
+        ? `Filter for ${channel} updated:\n${describeFilterRule(rule)}`
+        : `${channel} is not subscribed. Use \`/subscribe\` first.`,
+      ephemeral: true
+    });
+  }
+};
+
+// Parse a YYYY-MM-DD option as the start of that day in UTC
+function parseDateOption(value: string | null): Date | undefined {
+  if (!value) return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(`${value}T00:00:00Z`).getTime())) {
+    throw new Error(`\`${value}\` is not a valid date, use YYYY-MM-DD`);
+  }
+  return new Date(`${value}T00:00:00Z`);
+}
+
+const SEARCH_PAGE_SIZE = 5;
+// How long the page buttons keep working
+const SEARCH_BUTTON_TIMEOUT = 5 * 60 * 1000;
+
+function buildSearchPage(query: string, results: ArchivedPost[], page: number, dateFormat: DateFormat): EmbedBuilder {
+  const pageCount = Math.ceil(results.length / SEARCH_PAGE_SIZE);
+  const pageResults = results.slice(page * SEARCH_PAGE_SIZE, (page + 1) * SEARCH_PAGE_SIZE);
+
+  return new EmbedBuilder()
+    .setTitle(`🔎 Truth Social posts matching "${truncateText(query, 200)}"`)
+    .setColor('#FF5700')
+    .setDescription(pageResults.map(({ post }) =>
+      `**[${formatDateForDisplay(post.createdAt, dateFormat)}](${post.url})** @${post.account.username} · \`${post.id}\`\n` +
+      truncateText((post.content || '(media only)').replace(/\s+/g, ' ').trim(), 250)
+    ).join('\n\n'))
+    .setFooter({ text: `Page ${page + 1} of ${pageCount} • ${results.length} posts • /post <id> for the full post` });
+}
+
+function buildSearchButtons(page: number, pageCount: number): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId('search:prev')
+      .setLabel('◀ Previous')
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(page === 0),
+    new ButtonBuilder()
+      .setCustomId('search:next')
+      .setLabel('Next ▶')
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(page >= pageCount - 1)
+  );
+}
+
+const search: SlashCommand = {
+  data: new SlashCommandBuilder()
+    .setName('search')
+    .setDescription('Search archived Truth Social posts')
+    .addStringOption(option => option
+      .setName('query')
+      .setDescription('Words the post must contain')
+      .setRequired(true))
+    .addStringOption(option => option
+      .setName('from')
+      .setDescription('Earliest date, YYYY-MM-DD (UTC)'))
+    .addStringOption(option => option
+      .setName('to')
+      .setDescription('Latest date, YYYY-MM-DD (UTC, inclusive)')),
+
+  async execute(interaction, { db, dateFormatFor }) {
+    const query = interaction.options.getString('query', true);
+
+    let from: Date | undefined;
+    let to: Date | undefined;
+    try {
+      from = parseDateOption(interaction.options.getString('from'));
+      const toDay = parseDateOption(interaction.options.getString('to'));
+      // Make the end date inclusive
+      to = toDay ? new Date(toDay.getTime() + 24 * 60 * 60 * 1000) : undefined;
+    } catch (error: any) {
+      await interaction.reply({ content: error.message, ephemeral: true });
+      return;
+    }
+
+    await interaction.deferReply();
+    const results = await db.searchArchivedPosts(query, from, to);
+    if (results.length === 0) {
+      await interaction.editReply(`No archived posts match "${truncateText(query, 200)}".`);
+      return;
+    }
+
+    const dateFormat = await dateFormatFor(interaction.channelId);
+    const pageCount = Math.ceil(results.length / SEARCH_PAGE_SIZE);
+    let page = 0;
+    const message = await interaction.editReply({
+      embeds: [buildSearchPage(query, results, page, dateFormat)],
+      components: pageCount > 1 ? [buildSearchButtons(page, pageCount)] : []
+    });
+    if (pageCount <= 1) return;
+
+    // Only the person who searched can flip pages
+    const collector = message.createMessageComponentCollector({
+      componentType: ComponentType.Button,
+      filter: button => button.user.id === interaction.user.id,
+      time: SEARCH_BUTTON_TIMEOUT
+    });
+
+    collector.on('collect', async button => {
+      page = button.customId === 'search:prev' ? Math.max(0, page - 1) : Math.min(pageCount - 1, page + 1);
+      await button.update({
+        embeds: [buildSearchPage(query, results, page, dateFormat)],
+        components: [buildSearchButtons(page, pageCount)]
+      }).catch(error => console.error('Error updating search page:', error));
+    });
+
+    collector.on('end', async () => {
+      await interaction.editReply({ components: [] }).catch(() => undefined);
+    });
+  }
+};
+
+const post: SlashCommand = {
+  data: new SlashCommandBuilder()
+    .setName('post')
+    .setDescription('Show an archived Truth Social post')
+    .addStringOption(option => option
+      .setName('id')
+      .setDescription('Truth Social post ID')
+      .setRequired(true)),
+
+  async execute(interaction, { db, urgencyClassifier, dateFormatFor }) {
+    const id = interaction.options.getString('id', true).trim();
+    const archived = /^\d+$/.test(id) ? await db.getArchivedPost(id) : null;
+    if (!archived) {
+      await interaction.reply({ content: `Post \`${truncateText(id, 50)}\` is not in the archive.`, ephemeral: true });
+      return;
+    }
+
+    const dateFormat = await dateFormatFor(interaction.channelId);
+    await interaction.reply({ embeds: buildTruthSocialEmbeds(archived.post, 'archived', urgencyClassifier.classify(archived.post), dateFormat) });
+  }
+};
+
+export const commands: SlashCommand[] = [subscribe, unsubscribe, subscriptions, delivery, mention, timeformat, filter, search, post];
@@ -0,0 +1,476 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { FilterRule, validateFilterRule } from './filterRules';
+import { CLOCK_FORMATS, DateFormat, isValidLocale, isValidTimeZone } from './dateFormat';
+
+// Lowest to highest, only tiers at or above MENTION_TIER ping a channel's role
+export type UrgencyTier = 'normal' | 'breaking';
+export const URGENCY_TIERS: UrgencyTier[] = ['normal', 'breaking'];
+
+// What to do with posts made while the bot was offline, see STARTUP_MODE in the README
+export type StartupMode = 'skip' | 'catch-up' | 'digest';
+export const STARTUP_MODES: StartupMode[] = ['skip', 'catch-up', 'digest'];
+
+// Where cursors, subscriptions, the outbox and the archive are kept
+export type StateBackend = 'couchdb' | 'file';
+export const STATE_BACKENDS: StateBackend[] = ['couchdb', 'file'];
+
+export type PostSourceName = 'scrapecreators' | 'mastodon';
+export const POST_SOURCE_NAMES: PostSourceName[] = ['scrapecreators', 'mastodon'];
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface AppConfig {
+  discord: { token: string; channelId: string };
+  storage: { backend: StateBackend; file: string };
+  couchdb: { url: string; username: string; password: string };
+  sources: {
+    primary: PostSourceName;
+    fallback: PostSourceName | null;
+    scrapeCreatorsApiKey: string;
+    mastodonApiUrl: string;
+    mastodonAccessToken: string;
+  };
+  truthSocial: {
+    handles: string[];
+    maxBackfillPages: number;
+    announceLimit: number;
+    maxPostAgeHours: number;
+    startupMode: StartupMode;
+  };
+  polling: {
+    intervalMinutes: number;
+    activeIntervalMinutes: number;
+    activeWindowMinutes: number;
+    quietIntervalMinutes: number;
+    // Null means learn them from the archive
+    quietHours: number[] | null;
+    timeZone: string;
+    maxBackoffMinutes: number;
+    dailyCreditBudget: number;
+  };
+  // Applied to every destination on top of each channel's own rule
+  filter: FilterRule | null;
+  tiers: {
+    breakingKeywords: string[];
+    capsRatio: number;
+    videoIsBreaking: boolean;
+    mentionTier: UrgencyTier;
+  };
+  tracking: {
+    editTrackingHours: number;
+    engagementUpdateMinutes: number;
+    trendingFavouritesThreshold: number;
+    trendingVelocityPerHour: number;
+  };
+  outbox: { maxAttempts: number; retryDelaySeconds: number; deadRetentionDays: number };
+  media: { mirror: boolean; maxMegabytes: number; maxVideoSeconds: number; archiveDir: string };
+  // How alerts write dates, for channels that haven't picked their own with /timeformat
+  display: DateFormat;
+  digest: { dailyCron: string; weeklyCron: string; timeZone: string };
+  reddit: { subreddits: string[]; pollIntervalMinutes: number };
+  notifiers: {
+    webhook: { url: string; secret: string; retry: RetryPolicy };
+    slack: { webhookUrl: string; retry: RetryPolicy };
+    telegram: { botToken: string; chatId: string; apiUrl: string; retry: RetryPolicy };
+    ntfy: { url: string; token: string; retry: RetryPolicy };
+  };
+  admin: { channelId: string; userIds: string[] };
+  health: { port: number; stalePollMinutes: number };
+}
+
+// Sections holding secrets or wired up once at startup, SIGHUP leaves them alone
+const RESTART_ONLY_SECTIONS: (keyof AppConfig)[] = ['discord', 'storage', 'couchdb', 'sources', 'notifiers', 'digest', 'reddit', 'health'];
+
+function copySection<K extends keyof AppConfig>(target: AppConfig, source: AppConfig, section: K): void {
+  target[section] = source[section];
+}
+
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+const SNOWFLAKE = /^\d{17,20}$/;
+
+// Reads each setting from the environment, then the config file, then the default, collecting every problem
+class ConfigReader {
+  readonly problems: string[] = [];
+
+  constructor(private file: Record<string, any>, private env: NodeJS.ProcessEnv) {}
+
+  // Env wins so secrets can stay out of the file
+  private raw(filePath: string, envName: string): unknown {
+    const fromEnv = this.env[envName];
+    if (fromEnv !== undefined && fromEnv !== '') return fromEnv;
+    return filePath.split('.').reduce<any>((node, key) => node?.[key], this.file);
+  }
+
+  private fail(filePath: string, envName: string, message: string): void {
+    this.problems.push(`${envName} (${filePath} in the config file) ${message}`);
+  }
+
+  string(filePath: string, envName: string, fallback = ''): string {
+    const value = this.raw(filePath, envName);
+    if (value === undefined || value === null) return fallback;
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      this.fail(filePath, envName, 'must be a string');
+      return fallback;
+    }
+    return String(value).trim();
+  }
+
+  required(filePath: string, envName: string): string {
+    const value = this.string(filePath, envName);
+    if (!value) this.fail(filePath, envName, 'is required');
+    return value;
+  }
+
+  number(filePath: string, envName: string, fallback: number, min: number, max = Infinity, integer = true): number {
+    const value = this.raw(filePath, envName);
+    if (value === undefined || value === null) return fallback;
+    const parsed = Number(value);
+    if (isNaN(parsed) || parsed < min || parsed > max || (integer && !Number.isInteger(parsed))) {
+      const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+      this.fail(filePath, envName, `must be ${integer ? 'a whole number' : 'a number'} ${range}, got "${value}"`);
+      return fallback;
+    }
+    return parsed;
+  }
+
+  boolean(filePath: string, envName: string, fallback: boolean): boolean {
+    const value = this.raw(filePath, envName);
+    if (value === undefined || value === null) return fallback;
+    if (typeof value === 'boolean') return value;
+    const text = String(value).toLowerCase();
+    if (text === 'true' || text === 'false') return text === 'true';
+    this.fail(filePath, envName, `must be true or false, got "${value}"`);
+    return fallback;
+  }
+
+  // Comma-separated in env, a list or comma-separated string in the file
+  list(filePath: string, envName: string, fallback: string[]): string[] {
+    const value = this.raw(filePath, envName);
+    if (value === undefined || value === null) return fallback;
+    const items = Array.isArray(value) ? value.map(String) : String(value).split(',');
+    return items.map(item => item.trim()).filter(item => item.length > 0);
+  }
+
+  oneOf<T extends string>(filePath: string, envName: string, choices: T[], fallback: T): T {
+    const value = this.string(filePath, envName, fallback).toLowerCase() as T;
+    if (!choices.includes(value)) {
+      this.fail(filePath, envName, `must be one of ${choices.join(', ')}, got "${value}"`);
+      return fallback;
+    }
+    return value;
+  }
+
+  // Discord IDs are optional, but a malformed one would only fail much later when a message is sent
+  snowflake(filePath: string, envName: string): string {
+    const value = this.string(filePath, envName);
+    if (value && !SNOWFLAKE.test(value)) {
+      this.fail(filePath, envName, `must be a Discord ID (17-20 digits), got "${value}"`);
+    }
+    return value;
+  }
+
+  snowflakes(filePath: string, envName: string): string[] {
+    const values = this.list(filePath, envName, []);
+    const invalid = values.filter(value => !SNOWFLAKE.test(value));
+    if (invalid.length > 0) {
+      this.fail(filePath, envName, `must be Discord IDs (17-20 digits), got "${invalid.join(', ')}"`);
+    }
+    return values.filter(value => SNOWFLAKE.test(value));
+  }
+
+  timeZone(filePath: string, envName: string, fallback: string): string {
+    const value = this.string(filePath, envName, fallback);
+    if (!isValidTimeZone(value)) {
+      this.fail(filePath, envName, `must be an IANA timezone such as America/New_York, got "${value}"`);
+      return fallback;
+    }
+    return value;
+  }
+
+  locale(filePath: string, envName: string, fallback: string): string {
+    const value = this.string(filePath, envName, fallback);
+    if (!isValidLocale(value)) {
+      this.fail(filePath, envName, `must be a locale such as en-US or de-DE, got "${value}"`);
+      return fallback;
+    }
+    return value;
+  }
+
+  // "1-6,23" -> hours 1 to 6 and 23, ranges may wrap past midnight ("22-5")
+  hours(filePath: string, envName: string): number[] | null {
+    const value = this.raw(filePath, envName);
+    if (value === undefined || value === null || value === '') return null;
+
+    const hours = new Set<number>();
+    const parts = Array.isArray(value) ? value.map(String) : String(value).split(',');
+    for (const part of parts.map(p => p.trim()).filter(p => p.length > 0)) {
+      const match = part.match(/^(\d{1,2})(?:-(\d{1,2}))?$/);
+      const start = match ? parseInt(match[1], 10) : NaN;
+      const end = match?.[2] !== undefined ? parseInt(match[2], 10) : start;
+      if (isNaN(start) || start > 23 || end > 23) {
+        this.fail(filePath, envName, `must be hours or ranges such as "1-6,23", got "${value}"`);
+        return null;
+      }
+      for (let hour = start; ; hour = (hour + 1) % 24) {
+        hours.add(hour);
+        if (hour === end) break;
+      }
+    }
+    return [...hours].sort((a, b) => a - b);
+  }
+
+  filter(filePath: string): FilterRule | null {
+    const value = filePath.split('.').reduce<any>((node, key) => node?.[key], this.file);
+    if (value === undefined || value === null) return null;
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      this.problems.push(`${filePath} in the config file must be a filter rule object`);
+      return null;
+    }
+    try {
+      validateFilterRule(value);
+      return value as FilterRule;
+    } catch (error: any) {
+      this.problems.push(`${filePath} in the config file: ${error.message}`);
+      return null;
+    }
+  }
+
+  // <PREFIX>_MAX_ATTEMPTS and <PREFIX>_RETRY_DELAY_SECONDS, e.g. SLACK_MAX_ATTEMPTS
+  retry(filePath: string, prefix: string): RetryPolicy {
+    return {
+      maxAttempts: this.number(`${filePath}.maxAttempts`, `${prefix}_MAX_ATTEMPTS`, 3, 1),
+      baseDelayMs: this.number(`${filePath}.retryDelaySeconds`, `${prefix}_RETRY_DELAY_SECONDS`, 5, 1) * 1000,
+      maxDelayMs: 5 * 60 * 1000
+    };
+  }
+}
+
+function buildConfig(read: ConfigReader): AppConfig {
+  const config: AppConfig = {
+    discord: {
+      token: read.required('discord.token', 'DISCORD_TOKEN'),
+      channelId: read.snowflake('discord.channelId', 'DISCORD_CHANNEL_ID')
+    },
+    storage: {
+      backend: read.oneOf('storage.backend', 'STATE_BACKEND', STATE_BACKENDS, 'couchdb'),
+      file: path.resolve(read.string('storage.file', 'STATE_FILE', 'data/state.json'))
+    },
+    couchdb: {
+      url: read.string('couchdb.url', 'COUCHDB_URL', 'http://db:5984'),
+      username: read.string('couchdb.username', 'COUCHDB_USERNAME'),
+      password: read.string('couchdb.password', 'COUCHDB_PASSWORD')
+    },
+    sources: {
+      primary: read.oneOf('sources.primary', 'POST_SOURCE', POST_SOURCE_NAMES, 'scrapecreators'),
+      fallback: read.string('sources.fallback', 'POST_SOURCE_FALLBACK')
+        ? read.oneOf('sources.fallback', 'POST_SOURCE_FALLBACK', POST_SOURCE_NAMES, 'mastodon')
+        : null,
+      scrapeCreatorsApiKey: read.string('sources.scrapeCreatorsApiKey', 'SCRAPECREATORS_API_KEY'),
+      mastodonApiUrl: read.string('sources.mastodonApiUrl', 'MASTODON_API_URL', 'https://truthsocial.com').replace(/\/+$/, ''),
+      mastodonAccessToken: read.string('sources.mastodonAccessToken', 'MASTODON_ACCESS_TOKEN')
+    },
+    truthSocial: {
+      // Handles are case-insensitive on Truth Social, and people tend to paste them with the @
+      handles: [...new Set(
+        read.list('truthSocial.handles', 'TRUTH_SOCIAL_HANDLES', ['realDonaldTrump']).map(handle => handle.replace(/^@/, ''))
+      )],
+      maxBackfillPages: read.number('truthSocial.maxBackfillPages', 'TRUTH_SOCIAL_MAX_BACKFILL_PAGES', 5, 1),
+      announceLimit: read.number('truthSocial.announceLimit', 'BACKFILL_ANNOUNCE_LIMIT', 10, 1),
+      maxPostAgeHours: read.number('truthSocial.maxPostAgeHours', 'MAX_POST_AGE_HOURS', 24, 1),
+      startupMode: read.oneOf('truthSocial.startupMode', 'STARTUP_MODE', STARTUP_MODES, 'catch-up')
+    },
+    polling: {
+      intervalMinutes: read.number('polling.intervalMinutes', 'POLL_INTERVAL_MINUTES', 5, 0.1, Infinity, false),
+      activeIntervalMinutes: read.number('polling.activeIntervalMinutes', 'POLL_ACTIVE_INTERVAL_MINUTES', 1, 0.1, Infinity, false),
+      activeWindowMinutes: read.number('polling.activeWindowMinutes', 'POLL_ACTIVE_WINDOW_MINUTES', 60, 0, Infinity, false),
+      quietIntervalMinutes: read.number('polling.quietIntervalMinutes', 'POLL_QUIET_INTERVAL_MINUTES', 30, 0.1, Infinity, false),
+      quietHours: read.hours('polling.quietHours', 'POLL_QUIET_HOURS'),
+      timeZone: read.timeZone('polling.timeZone', 'POLL_TIMEZONE', 'America/New_York'),
+      maxBackoffMinutes: read.number('polling.maxBackoffMinutes', 'POLL_MAX_BACKOFF_MINUTES', 60, 1, Infinity, false),
+      dailyCreditBudget: read.number('polling.dailyCreditBudget', 'DAILY_API_CREDIT_BUDGET', 0, 0)
+    },
+    filter: read.filter('filter'),
+    tiers: {
+      breakingKeywords: read.list('tiers.breakingKeywords', 'TIER_BREAKING_KEYWORDS', ['breaking', 'urgent', 'executive order'])
+        .map(keyword => keyword.toLowerCase()),
+      capsRatio: read.number('tiers.capsRatio', 'TIER_CAPS_RATIO', 0.7, 0, 1, false),
+      videoIsBreaking: read.boolean('tiers.videoIsBreaking', 'TIER_VIDEO_IS_BREAKING', true),
+      mentionTier: read.oneOf('tiers.mentionTier', 'MENTION_TIER', URGENCY_TIERS, 'breaking')
+    },
+    tracking: {
+      editTrackingHours: read.number('tracking.editTrackingHours', 'EDIT_TRACKING_HOURS', 24, 1),
+      engagementUpdateMinutes: read.number('tracking.engagementUpdateMinutes', 'ENGAGEMENT_UPDATE_MINUTES', 15, 0),
+      trendingFavouritesThreshold: read.number('tracking.trendingFavouritesThreshold', 'TRENDING_FAVOURITES_THRESHOLD', 50000, 0),
+      trendingVelocityPerHour: read.number('tracking.trendingVelocityPerHour', 'TRENDING_VELOCITY_PER_HOUR', 20000, 0)
+    },
+    outbox: {
+      maxAttempts: read.number('outbox.maxAttempts', 'OUTBOX_MAX_ATTEMPTS', 8, 1),
+      retryDelaySeconds: read.number('outbox.retryDelaySeconds', 'OUTBOX_RETRY_DELAY_SECONDS', 30, 1),
+      deadRetentionDays: read.number('outbox.deadRetentionDays', 'OUTBOX_DEAD_RETENTION_DAYS', 14, 1)
+    },
+    media: {
+      mirror: read.boolean('media.mirror', 'MEDIA_MIRROR', false),
+      maxMegabytes: read.number('media.maxMegabytes', 'MEDIA_MAX_MB', 8, 0.1, Infinity, false),
+      maxVideoSeconds: read.number('media.maxVideoSeconds', 'MEDIA_MAX_VIDEO_SECONDS', 60, 0),
+      archiveDir: path.resolve(read.string('media.archiveDir', 'MEDIA_ARCHIVE_DIR', 'data/media'))
+    },
+    display: {
+      timeZone: read.timeZone('display.timeZone', 'DISPLAY_TIMEZONE', 'America/New_York'),
+      locale: read.locale('display.locale', 'DISPLAY_LOCALE', 'en-US'),
+      clock: read.oneOf('display.clock', 'DISPLAY_CLOCK', CLOCK_FORMATS, '12h')
+    },
+    digest: {
+      dailyCron: read.string('digest.dailyCron', 'DIGEST_DAILY_CRON', '0 8 * * *'),
+      weeklyCron: read.string('digest.weeklyCron', 'DIGEST_WEEKLY_CRON', '0 8 * * 1'),
+      timeZone: read.timeZone('digest.timeZone', 'DIGEST_TIMEZONE', 'America/New_York')
+    },
+    reddit: {
+      subreddits: read.list('reddit.subreddits', 'REDDIT_SUBREDDITS', []).map(name => name.replace(/^\/?r\//i, '')),
+      pollIntervalMinutes: read.number('reddit.pollIntervalMinutes', 'REDDIT_POLL_INTERVAL_MINUTES', 10, 1, 59)
+    },
+    notifiers: {
+      webhook: {
+        url: read.string('notifiers.webhook.url', 'WEBHOOK_URL'),
+        secret: read.string('notifiers.webhook.secret', 'WEBHOOK_SECRET'),
+        retry: read.retry('notifiers.webhook', 'WEBHOOK')
+      },
+      slack: {
+        webhookUrl: read.string('notifiers.slack.webhookUrl', 'SLACK_WEBHOOK_URL'),
+        retry: read.retry('notifiers.slack', 'SLACK')
+      },
+      telegram: {
+        botToken: read.string('notifiers.telegram.botToken', 'TELEGRAM_BOT_TOKEN'),
+        chatId: read.string('notifiers.telegram.chatId', 'TELEGRAM_CHAT_ID'),
+        apiUrl: read.string('notifiers.telegram.apiUrl', 'TELEGRAM_API_URL', 'https://api.telegram.org'),
+        retry: read.retry('notifiers.telegram', 'TELEGRAM')
+      },
+      ntfy: {
+        url: read.string('notifiers.ntfy.url', 'NTFY_URL'),
+        token: read.string('notifiers.ntfy.token', 'NTFY_TOKEN'),
+        retry: read.retry('notifiers.ntfy', 'NTFY')
+      }
+    },
+    admin: {
+      channelId: read.snowflake('admin.channelId', 'ADMIN_CHANNEL_ID'),
+      userIds: read.snowflakes('admin.userIds', 'ADMIN_USER_IDS')
+    },
+    health: {
+      // 0 turns the server off
+      port: read.number('health.port', 'HEALTH_PORT', 8080, 0, 65535),
+      stalePollMinutes: read.number('health.stalePollMinutes', 'HEALTH_STALE_POLL_MINUTES', 90, 1)
+    }
+  };
+
+  // Checks that span several settings
+  if (config.storage.backend === 'couchdb' && (!config.couchdb.username || !config.couchdb.password)) {
+    read.problems.push('COUCHDB_USERNAME and COUCHDB_PASSWORD are required when STATE_BACKEND is couchdb');
+  }
+  const { sources } = config;
+  if (sources.fallback === sources.primary) {
+    read.problems.push('POST_SOURCE_FALLBACK must be a different source than POST_SOURCE');
+  }
+  if (sources.primary === 'scrapecreators' && !sources.scrapeCreatorsApiKey && sources.fallback !== 'mastodon') {
+    read.problems.push('SCRAPECREATORS_API_KEY is required when POST_SOURCE is scrapecreators');
+  }
+  if (config.truthSocial.handles.length === 0) {
+    read.problems.push('TRUTH_SOCIAL_HANDLES must list at least one account');
+  }
+  if (Boolean(config.notifiers.telegram.botToken) !== Boolean(config.notifiers.telegram.chatId)) {
+    read.problems.push('TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_ID must be set together');
+  }
+
+  return config;
+}
+
+// CONFIG_FILE, or the first of config.yaml, config.yml and config.json in the working directory
+function findConfigFile(): string | null {
+  if (process.env.CONFIG_FILE) {
+    return path.resolve(process.env.CONFIG_FILE);
+  }
+  const candidate = ['config.yaml', 'config.yml', 'config.json'].map(name => path.resolve(name)).find(file => fs.existsSync(file));
+  return candidate ?? null;
+}
+
+// Throws ConfigError listing every problem, not just the first
+export function loadConfig(env: NodeJS.ProcessEnv = process.env, file: string | null = findConfigFile()): AppConfig {
+  let contents: Record<string, any> = {};
+  if (file) {
+    try {
+      // YAML is a superset of JSON, so one parser covers both
+      const parsed = yaml.load(fs.readFileSync(file, 'utf8'));
+      if (parsed !== undefined && parsed !== null && (typeof parsed !== 'object' || Array.isArray(parsed))) {
+        throw new Error('the top level must be a mapping of settings');
+      }
+      contents = (parsed ?? {}) as Record<string, any>;
+    } catch (error: any) {
+      throw new ConfigError([`Could not read config file ${file}: ${error.message}`]);
+    }
+  }
+
+  const reader = new ConfigReader(contents, env);
+  const config = buildConfig(reader);
+  if (reader.problems.length > 0) {
+    throw new ConfigError(reader.problems);
+  }
+  return config;
+}
+
+// Holds the current config, services read from it whenever they need a setting so reloads apply right away
+export class ConfigService {
+  constructor(private config: AppConfig, private file: string | null = null) {}
+
+  get current(): AppConfig {
+    return this.config;
+  }
+
+  // Re-read the config file and environment, keeping secrets and startup-only settings.
+  // An invalid file is logged and ignored so a typo never takes the bot down.
+  reload(): boolean {
+    let next: AppConfig;
+    try {
+      next = loadConfig(process.env, this.file);
+    } catch (error) {
+      console.error('Config reload failed, keeping the current settings:', error instanceof ConfigError ? error.message : error);
+      return false;
+    }
+
+    for (const section of RESTART_ONLY_SECTIONS) {
+      if (JSON.stringify(next[section]) !== JSON.stringify(this.config[section])) {
+        console.warn(`Changes to "${section}" settings need a restart to take effect`);
+      }
+      copySection(next, this.config, section);
+    }
+
+    this.config = next;
+    console.log('Config reloaded');
+    return true;
+  }
+}
+
+// Load the startup config, exiting with every problem listed if it's invalid.
+// Running with a half-valid config is how alerts silently go missing.
+export function loadConfigService(): ConfigService {
+  const file = findConfigFile();
+  try {
+    const config = loadConfig(process.env, file);
+    if (file) {
+      console.log(`Loaded config file ${file}`);
+    }
+    return new ConfigService(config, file);
+  } catch (error) {
+    console.error(error instanceof ConfigError ? error.message : error);
+    process.exit(1);
+  }
+}
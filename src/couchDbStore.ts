@@ -0,0 +1,819 @@
+import nano from 'nano';
+import { AppConfig } from './config';
+import { DateFormat } from './dateFormat';
+import { FilterRule } from './filterRules';
+import {
+  AnnouncedPost,
+  ArchivedPost,
+  DeliveryMode,
+  DeliveryTarget,
+  DigestSchedule,
+  OutboxItem,
+  StateSnapshot,
+  StateStore,
+  Subscription,
+  assertInitialized,
+  buildArchivedPost,
+  emptyStateSnapshot
+} from './stateStore';
+import { TruthSocialPost } from './types';
+
+interface LastSeenPosts {
+  _id: string;
+  _rev?: string;
+  // Cursor from before multi-account support, only ever held @realDonaldTrump's posts
+  truth_social_post_id?: string;
+  // Last seen post ID keyed by lowercased Truth Social handle
+  truth_social_accounts?: Record<string, string>;
+}
+
+// Kept apart from LastSeenPosts so the Reddit and Truth Social pollers never conflict on updates
+interface LastSeenRedditPosts {
+  _id: string;
+  _rev?: string;
+  // Last seen post ID (base36) keyed by lowercased subreddit name
+  subreddits: Record<string, string>;
+}
+
+// Handle the legacy single cursor belonged to
+const LEGACY_HANDLE = 'realdonaldtrump';
+
+// Document ID prefix for subscriptions, lets us range-scan them with _all_docs
+const SUBSCRIPTION_PREFIX = 'subscription:';
+
+const OUTBOX_PREFIX = 'outbox:';
+
+const REDDIT_DOC_ID = 'last_seen_reddit_posts';
+
+const ANNOUNCED_PREFIX = 'announced:';
+
+const ARCHIVE_PREFIX = 'post:';
+
+// Thrown by writes made while CouchDB isn't reachable
+const NOT_READY = 'Database not initialized';
+
+// Documents read or written per request in bulk operations, e.g. copying state to or from another backend
+const BATCH_SIZE = 500;
+
+// Bump the version when the map function changes so existing databases pick up the new view
+const ARCHIVE_DESIGN_DOC = {
+  _id: '_design/archive',
+  version: 1,
+  language: 'javascript',
+  views: {
+    // One row per distinct word in a post, keyed by [word, createdAt]
+    by_word: {
+      map: `function (doc) {
+        if (doc.type !== 'post' || !doc.post || !doc.post.content) return;
+        var seen = {};
+        doc.post.content.toLowerCase().split(/[^\\w#@']+/).forEach(function (word) {
+          if (word.length < 2 || seen[word]) return;
+          seen[word] = true;
+          emit([word, doc.createdAt], null);
+        });
+      }`
+    }
+  }
+};
+
+// Unref'd so the reconnect loop never keeps a one-off command like migrate-state running
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms).unref());
+}
+
+export class CouchDbStore implements StateStore {
+  private nano: nano.ServerScope;
+  private db!: nano.DocumentScope<LastSeenPosts>;
+  private dbName = 'trump_tracker';
+  private docId = 'last_seen_posts';
+  private connectionErrors = 0;
+  private initialized = false;
+  private retryDelay = 5000; // 5 seconds before the first retry
+  private maxRetryDelay = 5 * 60 * 1000; // doubling up to 5 minutes
+  private checkInterval = 30000; // 30 seconds between checks once connected
+  private connecting: Promise<void> | null = null;
+
+  constructor(settings: AppConfig['couchdb']) {
+    const { url, username, password } = settings;
+
+    console.log(`Connecting to CouchDB at ${url}`);
+
+    // Create connection with authentication
+    this.nano = nano({
+      url,
+      requestDefaults: {
+        auth: {
+          username,
+          password
+        }
+      }
+    });
+  }
+
+  // Resolves on the first successful connection. The loop keeps going after that and
+  // reconnects whenever CouchDB goes away, services check isInitialized in the meantime.
+  connect(): Promise<void> {
+    if (!this.connecting) {
+      this.connecting = new Promise(resolve => this.keepConnected(resolve));
+    }
+    return this.connecting;
+  }
+
+  get isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  private async keepConnected(onConnected: () => void): Promise<void> {
+    let delay = this.retryDelay;
+
+    for (;;) {
+      if (!this.initialized) {
+        try {
+          await this.initialize();
+          console.log(this.connectionErrors > 0
+            ? `Connected to database after ${this.connectionErrors + 1} attempts`
+            : 'Successfully connected to database');
+          this.connectionErrors = 0;
+          delay = this.retryDelay;
+          onConnected();
+        } catch (error) {
+          this.connectionErrors++;
+          // Log the first failure and then every tenth, a long outage shouldn't flood the logs
+          if (this.connectionErrors === 1 || this.connectionErrors % 10 === 0) {
+            console.error(`Database connection attempt ${this.connectionErrors} failed, retrying in ${Math.round(delay / 1000)} seconds:`, error);
+          }
+          await sleep(delay);
+          delay = Math.min(delay * 2, this.maxRetryDelay);
+          continue;
+        }
+      }
+
+      await sleep(this.checkInterval);
+      try {
+        await this.nano.db.get(this.dbName);
+      } catch (error) {
+        console.error('Lost the database connection, reconnecting in the background:', error);
+        this.initialized = false;
+      }
+    }
+  }
+
+  private async initialize(): Promise<void> {
+    // Check if database exists, if not create it
+    const dbList = await this.nano.db.list();
+    if (!dbList.includes(this.dbName)) {
+      await this.nano.db.create(this.dbName);
+      console.log(`Created database: ${this.dbName}`);
+    }
+
+    // Set db reference
+    this.db = this.nano.use<LastSeenPosts>(this.dbName);
+
+    // Index for picking up due outbox items, creating an existing index is a no-op
+    await this.outboxDb.createIndex({
+      index: { fields: ['type', 'status', 'nextAttemptAt'] },
+      name: 'outbox-due'
+    });
+
+    await this.announcedDb.createIndex({
+      index: { fields: ['type', 'handle', 'status', 'postCreatedAt'] },
+      name: 'announced-by-handle'
+    });
+
+    await this.archiveDb.createIndex({
+      index: { fields: ['type', 'createdAt'] },
+      name: 'archive-by-date'
+    });
+    await this.ensureArchiveDesignDoc();
+
+    // Check if our document exists, if not create it
+    try {
+      await this.db.get(this.docId);
+    } catch (error: any) {
+      if (error.statusCode !== 404) throw error;
+      await this.db.insert({
+        _id: this.docId,
+        truth_social_accounts: {}
+      });
+      console.log(`Created document: ${this.docId}`);
+    }
+    this.initialized = true;
+  }
+
+  async getLastSeenPosts(): Promise<LastSeenPosts> {
+    // If not initialized yet, return an empty document
+    if (!this.initialized) {
+      return { _id: this.docId };
+    }
+    
+    try {
+      const doc = await this.db.get(this.docId);
+      this.connectionErrors = 0;
+      return doc;
+    } catch (error) {
+      console.error('Error getting last seen posts:', error);
+      return { _id: this.docId };
+    }
+  }
+
+  async getLastSeenTruthSocialPost(handle: string): Promise<string | undefined> {
+    const doc = await this.getLastSeenPosts();
+    const key = handle.toLowerCase();
+
+    // Fall back to the pre multi-account cursor so upgrading doesn't re-announce posts
+    if (key === LEGACY_HANDLE) {
+      return doc.truth_social_accounts?.[key] || doc.truth_social_post_id || undefined;
+    }
+
+    return doc.truth_social_accounts?.[key] || undefined;
+  }
+
+  async updateLastSeenTruthSocialPost(handle: string, postId: string): Promise<void> {
+    if (!this.initialized) {
+      console.log('Database not initialized, skipping Truth Social post update');
+      return;
+    }
+    
+    try {
+      const doc = await this.getLastSeenPosts();
+      await this.db.insert({
+        ...doc,
+        truth_social_accounts: {
+          ...doc.truth_social_accounts,
+          [handle.toLowerCase()]: postId
+        }
+      });
+    } catch (error) {
+      console.error('Error updating last seen Truth Social post:', error);
+    }
+  }
+
+  private get redditDb(): nano.DocumentScope<LastSeenRedditPosts> {
+    return this.nano.use<LastSeenRedditPosts>(this.dbName);
+  }
+
+  private async getLastSeenRedditPosts(): Promise<LastSeenRedditPosts> {
+    try {
+      return await this.redditDb.get(REDDIT_DOC_ID);
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return { _id: REDDIT_DOC_ID, subreddits: {} };
+      }
+      throw error;
+    }
+  }
+
+  // Throws when the cursor can't be read, undefined would look like a subreddit we've never seen
+  async getLastSeenRedditPost(subreddit: string): Promise<string | undefined> {
+    assertInitialized(this, NOT_READY);
+
+    const doc = await this.getLastSeenRedditPosts();
+    return doc.subreddits[subreddit.toLowerCase()] || undefined;
+  }
+
+  async updateLastSeenRedditPost(subreddit: string, postId: string): Promise<void> {
+    if (!this.initialized) {
+      console.log('Database not initialized, skipping Reddit post update');
+      return;
+    }
+
+    try {
+      const doc = await this.getLastSeenRedditPosts();
+      await this.redditDb.insert({
+        ...doc,
+        subreddits: {
+          ...doc.subreddits,
+          [subreddit.toLowerCase()]: postId
+        }
+      });
+    } catch (error) {
+      console.error('Error updating last seen Reddit post:', error);
+    }
+  }
+
+  private get announcedDb(): nano.DocumentScope<AnnouncedPost> {
+    return this.nano.use<AnnouncedPost>(this.dbName);
+  }
+
+  // Add a Discord message to the post's snapshot, creating the snapshot on the first delivery
+  async recordAnnouncedMessage(post: TruthSocialPost, contentHash: string, channelId: string, messageId: string): Promise<void> {
+    assertInitialized(this, NOT_READY);
+
+    const docId = `${ANNOUNCED_PREFIX}${post.id}`;
+
+    // Retry once on a conflict in case another delivery updated the snapshot in between
+    for (let attempt = 0; attempt < 2; attempt++) {
+      let doc: AnnouncedPost;
+      try {
+        doc = await this.announcedDb.get(docId);
+      } catch (error: any) {
+        if (error.statusCode !== 404) throw error;
+        doc = {
+          _id: docId,
+          type: 'announced',
+          postId: post.id,
+          handle: post.account.username.toLowerCase(),
+          postCreatedAt: post.createdAt,
+          post,
+          contentHash,
+          status: 'active',
+          messages: [],
+          editCount: 0
+        };
+      }
+
+      if (doc.messages.some(message => message.channelId === channelId && message.messageId === messageId)) {
+        return;
+      }
+
+      try {
+        await this.announcedDb.insert({ ...doc, messages: [...doc.messages, { channelId, messageId }] });
+        return;
+      } catch (error: any) {
+        if (error.statusCode !== 409 || attempt === 1) throw error;
+      }
+    }
+  }
+
+  // Snapshots still being watched for one account, for posts made since the given time
+  async getActiveAnnouncedPosts(handle: string, since: Date): Promise<AnnouncedPost[]> {
+    if (!this.initialized) {
+      return [];
+    }
+
+    try {
+      const result = await this.announcedDb.find({
+        selector: {
+          type: 'announced',
+          handle: handle.toLowerCase(),
+          status: 'active',
+          postCreatedAt: { $gte: since.toISOString() }
+        },
+        use_index: 'announced-by-handle',
+        limit: 200
+      });
+      return result.docs;
+    } catch (error) {
+      console.error('Error getting announced posts:', error);
+      return [];
+    }
+  }
+
+  async updateAnnouncedPost(doc: AnnouncedPost): Promise<void> {
+    assertInitialized(this, NOT_READY);
+
+    const result = await this.announcedDb.insert(doc);
+    doc._rev = result.rev;
+  }
+
+  private get archiveDb(): nano.DocumentScope<ArchivedPost> {
+    return this.nano.use<ArchivedPost>(this.dbName);
+  }
+
+  private async ensureArchiveDesignDoc(): Promise<void> {
+    const designDb = this.nano.use<any>(this.dbName);
+    try {
+      const existing = await designDb.get(ARCHIVE_DESIGN_DOC._id);
+      if (existing.version !== ARCHIVE_DESIGN_DOC.version) {
+        await designDb.insert({ ...ARCHIVE_DESIGN_DOC, _rev: existing._rev });
+        console.log('Updated archive views');
+      }
+    } catch (error: any) {
+      if (error.statusCode !== 404) throw error;
+      await designDb.insert(ARCHIVE_DESIGN_DOC);
+      console.log('Created archive views');
+    }
+  }
+
+  // Store new posts and refresh changed ones. Unchanged posts aren't rewritten.
+  async archivePosts(posts: TruthSocialPost[]): Promise<void> {
+    if (!this.initialized || posts.length === 0) {
+      return;
+    }
+
+    try {
+      const existing = await this.archiveDb.fetch({ keys: posts.map(post => `${ARCHIVE_PREFIX}${post.id}`) });
+      const existingById = new Map<string, ArchivedPost>();
+      for (const row of existing.rows) {
+        if ('doc' in row && row.doc) {
+          existingById.set(row.id, row.doc);
+        }
+      }
+
+      const now = new Date().toISOString();
+      const docs: ArchivedPost[] = [];
+      for (const post of posts) {
+        const id = `${ARCHIVE_PREFIX}${post.id}`;
+        const doc = buildArchivedPost(id, post, existingById.get(id), now);
+        if (doc) docs.push(doc);
+      }
+
+      if (docs.length > 0) {
+        await this.archiveDb.bulk({ docs });
+      }
+    } catch (error) {
+      console.error('Error archiving posts:', error);
+    }
+  }
+
+  async getArchivedPost(postId: string): Promise<ArchivedPost | null> {
+    assertInitialized(this, NOT_READY);
+
+    try {
+      return await this.archiveDb.get(`${ARCHIVE_PREFIX}${postId}`);
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Posts made in [from, to), newest first
+  async getArchivedPostsBetween(from: Date, to: Date, limit: number = 1000): Promise<ArchivedPost[]> {
+    assertInitialized(this, NOT_READY);
+
+    const result = await this.archiveDb.find({
+      selector: {
+        type: 'post',
+        createdAt: { $gte: from.toISOString(), $lt: to.toISOString() }
+      },
+      sort: [{ type: 'desc' }, { createdAt: 'desc' }],
+      use_index: 'archive-by-date',
+      limit
+    });
+    return result.docs;
+  }
+
+  // Posts containing every term (prefix match on words), optionally within [from, to), newest first
+  async searchArchivedPosts(query: string, from?: Date, to?: Date, limit: number = 100): Promise<ArchivedPost[]> {
+    assertInitialized(this, NOT_READY);
+
+    const terms = query.toLowerCase().split(/[^\w#@']+/).filter(term => term.length > 0);
+    if (terms.length === 0) {
+      return this.getArchivedPostsBetween(from ?? new Date(0), to ?? new Date(), limit);
+    }
+
+    // Narrow down with the most selective looking (longest) term, then check the rest in memory.
+    // Rows are keyed [word, createdAt], so the date bounds are applied before any document is loaded.
+    const [lookupTerm] = [...terms].sort((a, b) => b.length - a.length);
+    const fromIso = from?.toISOString();
+    const toIso = to?.toISOString();
+    const createdAtById = new Map<string, string>();
+    let page: { startkey: unknown; startkey_docid?: string; skip?: number } = { startkey: [`${lookupTerm}\ufff0`, {}] };
+    while (true) {
+      const result = await this.archiveDb.view<null>('archive', 'by_word', {
+        ...page,
+        endkey: [lookupTerm],
+        descending: true,
+        limit: BATCH_SIZE
+      });
+      for (const row of result.rows) {
+        const createdAt: string = row.key[1];
+        if (fromIso && createdAt < fromIso) continue;
+        if (toIso && createdAt >= toIso) continue;
+        createdAtById.set(row.id, createdAt);
+      }
+
+      if (result.rows.length < BATCH_SIZE) break;
+      const last = result.rows[result.rows.length - 1];
+      page = { startkey: last.key, startkey_docid: last.id, skip: 1 };
+    }
+
+    // A prefix covers several words, each sorted on its own, so order by date here and load newest first
+    const candidateIds = [...createdAtById.entries()]
+      .sort(([, a], [, b]) => b.localeCompare(a))
+      .map(([id]) => id);
+    const matches: ArchivedPost[] = [];
+    for (let i = 0; i < candidateIds.length && matches.length < limit; i += BATCH_SIZE) {
+      const docs = await this.archiveDb.fetch({ keys: candidateIds.slice(i, i + BATCH_SIZE) });
+      for (const row of docs.rows) {
+        if (!('doc' in row) || !row.doc) continue;
+        const content = row.doc.post.content.toLowerCase();
+        if (terms.every(term => content.includes(term))) {
+          matches.push(row.doc);
+        }
+      }
+    }
+
+    return matches.slice(0, limit);
+  }
+
+  private get subscriptionDb(): nano.DocumentScope<Subscription> {
+    return this.nano.use<Subscription>(this.dbName);
+  }
+
+  async getSubscriptions(guildId?: string): Promise<Subscription[]> {
+    if (!this.initialized) {
+      return [];
+    }
+
+    try {
+      const result = await this.subscriptionDb.list({
+        include_docs: true,
+        startkey: SUBSCRIPTION_PREFIX,
+        endkey: `${SUBSCRIPTION_PREFIX}\ufff0`
+      });
+
+      return result.rows
+        .map(row => row.doc as Subscription)
+        .filter(doc => doc && (!guildId || doc.guildId === guildId));
+    } catch (error) {
+      console.error('Error getting subscriptions:', error);
+      return [];
+    }
+  }
+
+  // Returns false if the channel was already subscribed
+  async addSubscription(
+    guildId: string,
+    channelId: string,
+    createdBy: string,
+    delivery: DeliveryMode = 'realtime'
+  ): Promise<boolean> {
+    assertInitialized(this, NOT_READY);
+
+    try {
+      await this.subscriptionDb.insert({
+        _id: `${SUBSCRIPTION_PREFIX}${channelId}`,
+        type: 'subscription',
+        guildId,
+        channelId,
+        createdBy,
+        createdAt: new Date().toISOString(),
+        delivery
+      });
+      return true;
+    } catch (error: any) {
+      if (error.statusCode === 409) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Returns false if the channel had no subscription
+  async removeSubscription(channelId: string): Promise<boolean> {
+    assertInitialized(this, NOT_READY);
+
+    try {
+      const doc = await this.subscriptionDb.get(`${SUBSCRIPTION_PREFIX}${channelId}`);
+      await this.subscriptionDb.destroy(doc._id, doc._rev);
+      return true;
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Returns the updated subscription, or null if the channel has no subscription
+  async setSubscriptionDelivery(
+    channelId: string,
+    delivery: DeliveryMode,
+    digestSchedule?: DigestSchedule
+  ): Promise<Subscription | null> {
+    assertInitialized(this, NOT_READY);
+
+    try {
+      const doc = await this.subscriptionDb.get(`${SUBSCRIPTION_PREFIX}${channelId}`);
+      const updated = { ...doc, delivery, digestSchedule: digestSchedule ?? doc.digestSchedule };
+      await this.subscriptionDb.insert(updated);
+      return updated;
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Pass undefined to stop pinging. Returns false if the channel has no subscription.
+  async setSubscriptionMentionRole(channelId: string, roleId: string | undefined): Promise<boolean> {
+    assertInitialized(this, NOT_READY);
+
+    try {
+      const { mentionRoleId: _previous, ...doc } = await this.subscriptionDb.get(`${SUBSCRIPTION_PREFIX}${channelId}`);
+      await this.subscriptionDb.insert(roleId ? { ...doc, mentionRoleId: roleId } : doc);
+      return true;
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Pass undefined to clear the filter. Returns false if the channel has no subscription.
+  async setSubscriptionFilter(channelId: string, filter: FilterRule | undefined): Promise<boolean> {
+    assertInitialized(this, NOT_READY);
+
+    try {
+      const { filter: _previous, ...doc } = await this.subscriptionDb.get(`${SUBSCRIPTION_PREFIX}${channelId}`);
+      await this.subscriptionDb.insert(filter ? { ...doc, filter } : doc);
+      return true;
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Pass undefined to go back to the DISPLAY_* settings. Returns false if the channel has no subscription.
+  async setSubscriptionDateFormat(channelId: string, dateFormat: Partial<DateFormat> | undefined): Promise<boolean> {
+    assertInitialized(this, NOT_READY);
+
+    try {
+      const { dateFormat: _previous, ...doc } = await this.subscriptionDb.get(`${SUBSCRIPTION_PREFIX}${channelId}`);
+      await this.subscriptionDb.insert(dateFormat ? { ...doc, dateFormat } : doc);
+      return true;
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async getSubscription(channelId: string): Promise<Subscription | null> {
+    assertInitialized(this, NOT_READY);
+
+    try {
+      return await this.subscriptionDb.get(`${SUBSCRIPTION_PREFIX}${channelId}`);
+    } catch (error: any) {
+      if (error.statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private get outboxDb(): nano.DocumentScope<OutboxItem> {
+    return this.nano.use<OutboxItem>(this.dbName);
+  }
+
+  // Queue a post for each channel. Items already queued for a post/channel pair are left alone.
+  async enqueueOutboxItems(post: TruthSocialPost, targets: DeliveryTarget[]): Promise<void> {
+    assertInitialized(this, NOT_READY);
+
+    const now = new Date().toISOString();
+    const results = await this.outboxDb.bulk({
+      docs: targets.map(({ channelId, mentionRoleId }) => ({
+        _id: `${OUTBOX_PREFIX}${post.id}:${channelId}`,
+        type: 'outbox' as const,
+        channelId,
+        ...(mentionRoleId ? { mentionRoleId } : {}),
+        post,
+        status: 'pending' as const,
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now
+      }))
+    });
+
+    const failed = results.filter(result => result.error && result.error !== 'conflict');
+    if (failed.length > 0) {
+      throw new Error(`Failed to queue post ${post.id} for ${failed.length} channels: ${failed[0].reason}`);
+    }
+  }
+
+  async getPendingOutboxItems(): Promise<OutboxItem[]> {
+    if (!this.initialized) {
+      return [];
+    }
+
+    try {
+      const items: OutboxItem[] = [];
+      let bookmark: string | undefined;
+      // Mango queries return a page at a time, keep following the bookmark until a short page
+      for (;;) {
+        const result = await this.outboxDb.find({
+          selector: { type: 'outbox', status: 'pending' },
+          sort: [{ type: 'asc' }, { status: 'asc' }, { nextAttemptAt: 'asc' }],
+          use_index: 'outbox-due',
+          limit: BATCH_SIZE,
+          ...(bookmark ? { bookmark } : {})
+        });
+        items.push(...result.docs);
+        if (result.docs.length < BATCH_SIZE) break;
+        bookmark = result.bookmark;
+      }
+      return items;
+    } catch (error) {
+      console.error('Error getting pending outbox items:', error);
+      return [];
+    }
+  }
+
+  async pruneOutboxItems(deliveredBefore: Date, deadBefore: Date): Promise<number> {
+    assertInitialized(this, NOT_READY);
+
+    let removed = 0;
+    const selectors: nano.MangoSelector[] = [
+      { type: 'outbox', status: 'delivered', deliveredAt: { $lt: deliveredBefore.toISOString() } },
+      { type: 'outbox', status: 'dead', nextAttemptAt: { $lt: deadBefore.toISOString() } }
+    ];
+    for (const selector of selectors) {
+      for (;;) {
+        const { docs } = await this.outboxDb.find({ selector, fields: ['_id', '_rev'], limit: BATCH_SIZE });
+        if (docs.length === 0) break;
+        await this.outboxDb.bulk({ docs: docs.map(doc => ({ _id: doc._id, _rev: doc._rev, _deleted: true })) });
+        removed += docs.length;
+        if (docs.length < BATCH_SIZE) break;
+      }
+    }
+    return removed;
+  }
+
+  async updateOutboxItem(item: OutboxItem): Promise<void> {
+    assertInitialized(this, NOT_READY);
+
+    const result = await this.outboxDb.insert(item);
+    item._rev = result.rev;
+  }
+
+  async exportState(): Promise<StateSnapshot> {
+    assertInitialized(this, NOT_READY);
+
+    const snapshot = emptyStateSnapshot();
+    const cursors = await this.db.get(this.docId);
+    snapshot.truthSocialCursors = { ...cursors.truth_social_accounts };
+    // The legacy cursor moves over as a regular one
+    if (cursors.truth_social_post_id && !snapshot.truthSocialCursors[LEGACY_HANDLE]) {
+      snapshot.truthSocialCursors[LEGACY_HANDLE] = cursors.truth_social_post_id;
+    }
+    snapshot.redditCursors = { ...(await this.getLastSeenRedditPosts()).subreddits };
+
+    snapshot.subscriptions = await this.listByPrefix<Subscription>(SUBSCRIPTION_PREFIX);
+    snapshot.outbox = await this.listByPrefix<OutboxItem>(OUTBOX_PREFIX);
+    snapshot.announced = await this.listByPrefix<AnnouncedPost>(ANNOUNCED_PREFIX);
+    snapshot.archive = await this.listByPrefix<ArchivedPost>(ARCHIVE_PREFIX);
+    return snapshot;
+  }
+
+  async importState(snapshot: StateSnapshot): Promise<void> {
+    assertInitialized(this, NOT_READY);
+
+    const cursors = await this.db.get(this.docId);
+    await this.db.insert({ ...cursors, truth_social_accounts: { ...cursors.truth_social_accounts, ...snapshot.truthSocialCursors } });
+    const reddit = await this.getLastSeenRedditPosts();
+    await this.redditDb.insert({ ...reddit, subreddits: { ...reddit.subreddits, ...snapshot.redditCursors } });
+
+    await this.replaceDocs([...snapshot.subscriptions, ...snapshot.outbox, ...snapshot.announced, ...snapshot.archive]);
+  }
+
+  // Every document whose ID starts with the prefix, without its revision
+  private async listByPrefix<T extends { _id: string; _rev?: string }>(prefix: string): Promise<T[]> {
+    const docs: T[] = [];
+    let startkey = prefix;
+
+    for (;;) {
+      // One extra row tells us where the next batch starts
+      const result = await this.nano.use<T>(this.dbName).list({
+        include_docs: true,
+        startkey,
+        endkey: `${prefix}\ufff0`,
+        limit: BATCH_SIZE + 1
+      });
+      for (const row of result.rows.slice(0, BATCH_SIZE)) {
+        if (row.doc) {
+          const { _rev, ...doc } = row.doc;
+          docs.push(doc as unknown as T);
+        }
+      }
+      if (result.rows.length <= BATCH_SIZE) {
+        return docs;
+      }
+      startkey = result.rows[BATCH_SIZE].id;
+    }
+  }
+
+  // Writes the documents over any existing ones with the same ID
+  private async replaceDocs(docs: { _id: string; _rev?: string }[]): Promise<void> {
+    const store = this.nano.use<{ _id: string }>(this.dbName);
+
+    for (let start = 0; start < docs.length; start += BATCH_SIZE) {
+      const batch = docs.slice(start, start + BATCH_SIZE);
+      const existing = await store.fetchRevs({ keys: batch.map(doc => doc._id) });
+      const revs = new Map<string, string>();
+      for (const row of existing.rows) {
+        // Deleted documents are listed too, they are recreated without a revision
+        if (!('value' in row)) continue;
+        const value = row.value as { rev: string; deleted?: boolean };
+        if (!value.deleted) {
+          revs.set(row.id, value.rev);
+        }
+      }
+
+      const results = await store.bulk({
+        docs: batch.map(({ _rev, ...doc }) => revs.has(doc._id) ? { ...doc, _rev: revs.get(doc._id) } : doc)
+      });
+      const failed = results.filter(result => result.error);
+      if (failed.length > 0) {
+        throw new Error(`Failed to write ${failed.length} documents, the first was ${failed[0].id}: ${failed[0].reason}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,59 @@
+// How dates are written in alerts. Each subscription can pick its own time zone, locale and clock,
+// anything it leaves out comes from the DISPLAY_* settings.
+
+export type ClockFormat = '12h' | '24h';
+
+export const CLOCK_FORMATS: ClockFormat[] = ['12h', '24h'];
+
+export interface DateFormat {
+  timeZone: string;
+  locale: string;
+  clock: ClockFormat;
+}
+
+// What alerts used before the format was configurable
+export const DEFAULT_DATE_FORMAT: DateFormat = { timeZone: 'America/New_York', locale: 'en-US', clock: '12h' };
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// BCP 47 tags such as en-GB or de-DE. Unknown but well-formed tags are rejected too, they'd silently fall back to English.
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+// "Sat, Jan 4, 2025, 09:30 AM EST" in en-US, "Sa., 4. Jan. 2025, 15:30 MEZ" in de-DE
+export function formatDateForDisplay(date: Date | string, format: DateFormat = DEFAULT_DATE_FORMAT): string {
+  return new Date(date).toLocaleString(format.locale, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: format.clock === '12h',
+    timeZone: format.timeZone,
+    timeZoneName: 'short'
+  });
+}
+
+// Hour of day (0-23) in the given timezone
+export function getHourInTimezone(date: Date, timeZone: string): number {
+  const hour = new Intl.DateTimeFormat('en-US', { hour: 'numeric', hourCycle: 'h23', timeZone }).format(date);
+  return parseInt(hour, 10) % 24;
+}
+
+// Discord renders these in each reader's own time zone and language: F is the full date and time, R is "5 minutes ago"
+export function discordTimestamp(date: Date | string, style: 'F' | 'R'): string {
+  return `<t:${Math.floor(new Date(date).getTime() / 1000)}:${style}>`;
+}
@@ -0,0 +1,61 @@
+import { ConfigService } from './config';
+import { StateStore, DigestSchedule } from './stateStore';
+import { DiscordSender } from './discordClient';
+import { buildDigestEmbed } from './embeds';
+import { matchesFilterRule } from './filterRules';
+
+const PERIOD_MS: Record<DigestSchedule, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+const TITLES: Record<DigestSchedule, string> = {
+  daily: '🗞️ Daily Truth Social digest',
+  weekly: '🗞️ Weekly Truth Social digest'
+};
+
+// Periodic summaries for channels that chose digest delivery
+export class DigestService {
+  readonly dailyCron: string;
+  readonly weeklyCron: string;
+  readonly timeZone: string;
+
+  constructor(private config: ConfigService, private db: StateStore, private discord: DiscordSender) {
+    // Defaults: every day at 8am and Mondays at 8am, in DIGEST_TIMEZONE
+    this.dailyCron = this.config.current.digest.dailyCron;
+    this.weeklyCron = this.config.current.digest.weeklyCron;
+    this.timeZone = this.config.current.digest.timeZone;
+  }
+
+  async sendDigests(schedule: DigestSchedule): Promise<void> {
+    const subscriptions = (await this.db.getSubscriptions())
+      .filter(sub => (sub.delivery === 'digest' || sub.delivery === 'both') && (sub.digestSchedule ?? 'daily') === schedule);
+    if (subscriptions.length === 0) return;
+
+    const to = new Date();
+    const from = new Date(to.getTime() - PERIOD_MS[schedule]);
+
+    let posts;
+    try {
+      posts = (await this.db.getArchivedPostsBetween(from, to)).map(doc => doc.post);
+    } catch (error) {
+      console.error(`Error loading archived posts for ${schedule} digest:`, error);
+      return;
+    }
+
+    const globalFilter = this.config.current.filter ?? undefined;
+    console.log(`Sending ${schedule} digest of ${posts.length} posts to ${subscriptions.length} channels`);
+
+    for (const sub of subscriptions) {
+      try {
+        const channelPosts = posts.filter(post => matchesFilterRule(post, globalFilter) && matchesFilterRule(post, sub.filter));
+        // Hours are counted in DIGEST_TIMEZONE unless the channel picked its own with /timeformat
+        const dateFormat = { ...this.config.current.display, timeZone: this.timeZone, ...sub.dateFormat };
+        const embed = buildDigestEmbed(TITLES[schedule], channelPosts, from, to, dateFormat);
+        await this.discord.sendEmbed(embed, sub.channelId);
+      } catch (error) {
+        console.error(`Error sending ${schedule} digest to channel ${sub.channelId}:`, error);
+      }
+    }
+  }
+}
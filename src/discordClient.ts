@@ -1,46 +1,15 @@
-import { Client, GatewayIntentBits, TextChannel, EmbedBuilder, Colors, APIEmbedField, AttachmentBuilder } from 'discord.js';
-import dotenv from 'dotenv';
+import { Client, GatewayIntentBits, TextChannel, EmbedBuilder, Colors, APIEmbedField, AttachmentBuilder, MessageCreateOptions, Events, ThreadAutoArchiveDuration } from 'discord.js';
+import { ConfigService } from './config';
 import axios from 'axios';
 import { randomUUID } from 'crypto';
-
-dotenv.config();
-
-interface TruthSocialPost {
-  id: string;
-  content: string;
-  createdAt: string;
-  url: string;
-  media_attachments?: {
-    type: string;
-    url: string;
-    preview_url: string;
-    meta?: {
-      original?: {
-        duration?: number;
-        width?: number;
-        height?: number;
-      };
-    };
-  }[];
-}
-
-interface RedditPost {
-  id: string;
-  title: string;
-  url: string;
-  created: number;
-  author?: string;
-  content?: string;
-  subreddit?: string;
-}
-
-// Utility function to truncate text if it's too long
-function truncateText(text: string, maxLength: number = 2000): string {
-  if (!text || text.length <= maxLength) {
-    return text;
-  }
-  return text.substring(0, maxLength - 3) + '...';
-}
+import { RedditPost, TruthSocialPost } from './types';
+import { PostState, buildTruthSocialEmbeds, formatCount, truncateText } from './embeds';
+import { DateFormat, discordTimestamp, formatDateForDisplay } from './dateFormat';
+import { StateStore, Subscription } from './stateStore';
+import { CommandContext, commands } from './commands';
+import { RecentPosts } from './recentPosts';
+import { MediaMirror } from './mediaMirror';
+import { UrgencyClassifier } from './urgencyTiers';
 
 // Extract an image or video URL from content if available
 function extractMediaUrl(content: string): { url: string | null, type: 'image' | 'video' | null } {
@@ -60,37 +29,34 @@ function extractMediaUrl(content: string): { url: string | null, type: 'image' |
   return { url: null, type: null };
 }
 
-// Format date for display
-function formatDateForDisplay(dateString: string): string {
-  // Parse the date string to make sure it's handled correctly
-  const date = new Date(dateString);
-  
-  // Format the date and time using US locale and EST timezone
-  return date.toLocaleString('en-US', {
-    weekday: 'short',
-    month: 'short', 
-    day: 'numeric',
-    year: 'numeric',
-    hour: '2-digit',
-    minute: '2-digit',
-    timeZone: 'America/New_York',
-    timeZoneName: 'short'
-  });
-}
-
-// Helper function to format video duration
-function formatDuration(seconds: number): string {
-  const minutes = Math.floor(seconds / 60);
-  const remainingSeconds = Math.round(seconds % 60);
-  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+// Everything the services send to Discord, tests swap in a recording fake
+export interface DiscordSender {
+  readonly ready: boolean;
+  withDefaultChannel(channelIds: string[]): string[];
+  sendTruthSocialUpdate(post: TruthSocialPost, channelId: string, mentionRoleId?: string): Promise<string>;
+  updateTruthSocialMessage(post: TruthSocialPost, state: PostState, channelId: string, messageId: string): Promise<void>;
+  sendEditDiff(post: TruthSocialPost, diff: string, channelId: string, replyToMessageId: string): Promise<void>;
+  sendTrendingAlert(post: TruthSocialPost, reason: string, channelId: string, messageId: string): Promise<void>;
+  sendEmbed(embed: EmbedBuilder, channelId: string): Promise<void>;
+  sendDirectEmbed(embed: EmbedBuilder, userId: string): Promise<void>;
+  sendPostSummary(posts: TruthSocialPost[], title: string, channelId: string): Promise<void>;
+  sendRedditUpdate(post: RedditPost): Promise<void>;
 }
 
-class DiscordClient {
+export class DiscordClient implements DiscordSender {
   private client: Client;
   private channelId: string;
+  private token: string;
   private isReady = false;
-
-  constructor() {
+  private commandContext: CommandContext;
+
+  constructor(
+    private config: ConfigService,
+    private db: StateStore,
+    private urgencyClassifier: UrgencyClassifier,
+    recentPosts: RecentPosts,
+    private mediaMirror: MediaMirror
+  ) {
     this.client = new Client({
       intents: [
         GatewayIntentBits.Guilds,
@@ -98,154 +64,258 @@ class DiscordClient {
       ]
     });
 
-    this.channelId = process.env.DISCORD_CHANNEL_ID || '';
-    
+    this.channelId = config.current.discord.channelId;
+    this.token = config.current.discord.token;
+    this.commandContext = { db, recentPosts, urgencyClassifier, dateFormatFor: channelId => this.dateFormatFor(channelId) };
+
     this.client.on('ready', () => {
       console.log(`Logged in as ${this.client.user?.tag}!`);
       this.isReady = true;
+      this.registerCommands();
     });
 
-    this.client.login(process.env.DISCORD_TOKEN).catch(error => {
+    this.client.on(Events.InteractionCreate, async interaction => {
+      if (!interaction.isChatInputCommand()) return;
+
+      const command = commands.find(cmd => cmd.data.name === interaction.commandName);
+      if (!command) return;
+
+      try {
+        await command.execute(interaction, this.commandContext);
+      } catch (error) {
+        console.error(`Error handling /${interaction.commandName}:`, error);
+        const reply = { content: 'Something went wrong running that command, please try again later.', ephemeral: true };
+        if (interaction.replied || interaction.deferred) {
+          await interaction.followUp(reply).catch(() => undefined);
+        } else {
+          await interaction.reply(reply).catch(() => undefined);
+        }
+      }
+    });
+  }
+
+  start(): void {
+    this.client.login(this.token).catch(error => {
       console.error('Error logging in to Discord:', error);
     });
   }
 
-  private async getChannel(): Promise<TextChannel | null> {
-    if (!this.isReady || !this.channelId) {
+  get ready(): boolean {
+    return this.isReady;
+  }
+
+  // Register slash commands globally, they can take a few minutes to show up in every server
+  private async registerCommands(): Promise<void> {
+    try {
+      await this.client.application?.commands.set(commands.map(command => command.data.toJSON()));
+      console.log(`Registered ${commands.length} slash commands`);
+    } catch (error) {
+      console.error('Error registering slash commands:', error);
+    }
+  }
+
+  private async getChannel(channelId: string): Promise<TextChannel | null> {
+    if (!this.isReady || !channelId) {
       return null;
     }
 
     try {
-      const channel = await this.client.channels.fetch(this.channelId);
+      const channel = await this.client.channels.fetch(channelId);
       if (!channel || !(channel instanceof TextChannel)) {
-        console.error('Invalid channel or not a text channel');
+        console.error(`Invalid channel or not a text channel: ${channelId}`);
         return null;
       }
       return channel;
     } catch (error) {
-      console.error('Error fetching channel:', error);
+      console.error(`Error fetching channel ${channelId}:`, error);
       return null;
     }
   }
 
+  // Add the legacy DISCORD_CHANNEL_ID, if set, to a list of target channels
+  withDefaultChannel(channelIds: string[]): string[] {
+    const targets = new Set(channelIds);
+    if (this.channelId) {
+      targets.add(this.channelId);
+    }
+    return [...targets];
+  }
 
-  async sendTruthSocialUpdate(post: TruthSocialPost): Promise<void> {
-    const channel = await this.getChannel();
-    if (!channel) return;
+  // The channel's /timeformat choices on top of the DISPLAY_* settings
+  private resolveDateFormat(subscription: Subscription | null | undefined): DateFormat {
+    return { ...this.config.current.display, ...subscription?.dateFormat };
+  }
 
-    // Parse the created time
-    const createdTime = new Date(post.createdAt);
-    
-    // Format the date nicely
-    const formattedDate = formatDateForDisplay(post.createdAt);
+  async dateFormatFor(channelId: string): Promise<DateFormat> {
+    return this.resolveDateFormat(await this.db.getSubscription(channelId));
+  }
 
-    // Create fields for the embed
-    const fields: APIEmbedField[] = [
-      {
-        name: '🕒 Posted',
-        value: formattedDate,
-        inline: true
-      },
-      {
-        name: '🔗 Source',
-        value: '[Truth Social](https://truthsocial.com/@realDonaldTrump)',
-        inline: true
+  // Send to one channel and return the message ID, throws if the message didn't go out
+  private async sendToChannel(channelId: string, message: MessageCreateOptions): Promise<string> {
+    if (!this.isReady) {
+      throw new Error('Discord client not ready');
+    }
+
+    const channel = await this.getChannel(channelId);
+    if (!channel) {
+      throw new Error(`Channel ${channelId} unavailable`);
+    }
+
+    const sent = await channel.send(message);
+    return sent.id;
+  }
+
+  // Send a message, rendered in each channel's date format, to every realtime channel. A failing channel never blocks
+  // the rest. Throws when Discord isn't ready or no channel got the message, so the caller can try again later.
+  private async broadcast(render: (dateFormat: DateFormat) => MessageCreateOptions): Promise<void> {
+    if (!this.isReady) {
+      throw new Error('Discord client not ready');
+    }
+
+    const subscriptions = (await this.db.getSubscriptions()).filter(sub => sub.delivery !== 'digest');
+    const channelIds = this.withDefaultChannel(subscriptions.map(sub => sub.channelId));
+    const byChannel = new Map(subscriptions.map(sub => [sub.channelId, sub]));
+
+    const results = await Promise.allSettled(channelIds.map(channelId =>
+      this.sendToChannel(channelId, render(this.resolveDateFormat(byChannel.get(channelId))))));
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`Error sending update to channel ${channelIds[index]}:`, result.reason);
       }
-    ];
+    });
+
+    const failed = results.filter(result => result.status === 'rejected');
+    if (failed.length > 0 && failed.length === channelIds.length) {
+      throw new Error(`Could not send to any of ${channelIds.length} channels`);
+    }
+  }
+
+  // Errors are left to the caller so the outbox can retry the delivery. Mirrored media goes up with the message.
+  async sendTruthSocialUpdate(post: TruthSocialPost, channelId: string, mentionRoleId?: string): Promise<string> {
+    const { post: rendered, files } = await this.mediaMirror.attachmentsFor(post);
+    const dateFormat = await this.dateFormatFor(channelId);
+    return this.sendToChannel(channelId, {
+      ...(mentionRoleId ? { content: `<@&${mentionRoleId}>` } : {}),
+      embeds: buildTruthSocialEmbeds(rendered, 'new', this.urgencyClassifier.classify(post), dateFormat),
+      files,
+      // Only ever ping the configured role, never anyone named in the post
+      allowedMentions: { roles: mentionRoleId ? [mentionRoleId] : [] }
+    });
+  }
+
+  // Re-render an announced post in place after it was edited or deleted
+  async updateTruthSocialMessage(post: TruthSocialPost, state: PostState, channelId: string, messageId: string): Promise<void> {
+    const channel = await this.getChannel(channelId);
+    if (!channel) {
+      throw new Error(`Channel ${channelId} unavailable`);
+    }
+
+    // The uploads stay on the message, so the embeds can keep pointing at them
+    const embeds = buildTruthSocialEmbeds(
+      this.mediaMirror.withUploadedMedia(post),
+      state,
+      this.urgencyClassifier.classify(post),
+      await this.dateFormatFor(channelId)
+    );
+    await channel.messages.edit(messageId, { embeds });
+  }
+
+  // Reply to the original alert with what changed
+  async sendEditDiff(post: TruthSocialPost, diff: string, channelId: string, replyToMessageId: string): Promise<void> {
+    const embed = new EmbedBuilder()
+      .setTitle(`✏️ ${post.account.displayName} edited this post`)
+      .setURL(post.url)
+      .setColor(Colors.Yellow)
+      .setDescription(truncateText(diff, 4000))
+      .setFooter({ text: 'Removed text is struck through, added text is bold' })
+      .setTimestamp(new Date());
+
+    await this.sendToChannel(channelId, {
+      embeds: [embed],
+      reply: { messageReference: replyToMessageId, failIfNotExists: false }
+    });
+  }
 
-    // Handle media attachments
-    const mediaAttachment = post.media_attachments?.[0];
+  // Follow-up in a thread on the original alert, falling back to a reply if threads aren't allowed
+  async sendTrendingAlert(post: TruthSocialPost, reason: string, channelId: string, messageId: string): Promise<void> {
+    const channel = await this.getChannel(channelId);
+    if (!channel) {
+      throw new Error(`Channel ${channelId} unavailable`);
+    }
 
+    const embed = new EmbedBuilder()
+      .setTitle(`🔥 Trending: ${post.account.displayName}'s post is ${reason}`)
+      .setURL(post.url)
+      .setColor(Colors.Orange)
+      .setDescription(
+        `💬 ${formatCount(post.repliesCount)} replies · ` +
+        `🔁 ${formatCount(post.reblogsCount)} ReTruths · ` +
+        `❤️ ${formatCount(post.favouritesCount)} likes`
+      )
+      .setTimestamp(new Date());
+
+    const original = await channel.messages.fetch(messageId);
     try {
-      const embed = new EmbedBuilder()
-        .setURL(post.url)
-        .setColor('#FF5700')
-        .setFooter({ 
-          text: 'Truth Social',
-          iconURL: 'https://i.imgur.com/XptPTJY.png'
-        });
-
-      // Set author with icon
-      embed.setAuthor({
-        name: 'Donald J. Trump',
-        url: 'https://truthsocial.com/@realDonaldTrump'
+      const thread = original.thread ?? await original.startThread({
+        name: truncateText(`🔥 ${post.account.displayName}: ${post.content || 'Trending post'}`, 100),
+        autoArchiveDuration: ThreadAutoArchiveDuration.OneDay
       });
+      await thread.send({ embeds: [embed] });
+    } catch (error) {
+      console.warn(`Could not use a thread in channel ${channelId}, replying instead:`, error);
+      await original.reply({ embeds: [embed], allowedMentions: { repliedUser: false } });
+    }
+  }
 
-      // Handle media attachments in the embed
-      if (mediaAttachment) {
-        if (mediaAttachment.type === 'image') {
-          // For images, use the standard layout
-          embed.setTitle('📢 New Truth Social Post from Donald Trump');
-          embed.setImage(mediaAttachment.url);
-          embed.addFields(fields);
-          
-          // If there's text content, set it as description
-          if (post.content && post.content.trim().length > 0) {
-            embed.setDescription(truncateText(post.content, 4000));
-          }
-          
-          await channel.send({ embeds: [embed] });
-        } else if (mediaAttachment.type === 'video') {
-          // For videos, use a simpler layout matching the example
-          embed.setTitle('📢 New Truth Social Post from Donald Trump');
-          
-          // Create fields exactly matching the expected format
-          const videoFields: APIEmbedField[] = [
-            {
-              name: '📹 Click to view video',
-              value: `[${mediaAttachment.url}](${mediaAttachment.url})`,
-              inline: false
-            },
-            {
-              name: '🕒 Posted',
-              value: formattedDate,
-              inline: true
-            },
-            {
-              name: '🔗 Source',
-              value: '[Truth Social](https://truthsocial.com/@realDonaldTrump)',
-              inline: true
-            }
-          ];
-          
-          // Add all fields to the embed
-          embed.addFields(videoFields);
-          
-          // Only add description if there's meaningful content
-          if (post.content && post.content.trim().length > 0) {
-            embed.setDescription(truncateText(post.content, 4000));
-          }
-
-          // No need to download and attach thumbnail for this format
-          // Send the message as is
-          await channel.send({ embeds: [embed] });
-          return;
-        }
-      } else {
-        // No media attachment, just a text post
-        embed.setTitle('📢 New Truth Social Post from Donald Trump');
-        embed.addFields(fields);
-        
-        // If there's text content, set it as description
-        if (post.content && post.content.trim().length > 0) {
-          embed.setDescription(truncateText(post.content, 4000));
-        }
-        
-        // Log the final embed structure
-        console.log('Final embed structure:', JSON.stringify(embed.toJSON(), null, 2));
+  async sendEmbed(embed: EmbedBuilder, channelId: string): Promise<void> {
+    await this.sendToChannel(channelId, { embeds: [embed] });
+  }
 
-        await channel.send({ embeds: [embed] });
-      }
-      
-    } catch (error) {
-      console.error('Error sending Truth Social update:', error);
+  // DM a user, e.g. an admin. Throws if they can't be reached (DMs closed, no shared server).
+  async sendDirectEmbed(embed: EmbedBuilder, userId: string): Promise<void> {
+    if (!this.isReady) {
+      throw new Error('Discord client not ready');
     }
+
+    const user = await this.client.users.fetch(userId);
+    await user.send({ embeds: [embed] });
   }
 
-  async sendRedditUpdate(post: RedditPost): Promise<void> {
-    const channel = await this.getChannel();
-    if (!channel) return;
+  // One embed listing posts that were missed during an outage, newest first
+  async sendPostSummary(posts: TruthSocialPost[], title: string, channelId: string): Promise<void> {
+    const dateFormat = await this.dateFormatFor(channelId);
+    const lines = posts.map(post => {
+      const snippet = truncateText((post.content || '(media only)').replace(/\s+/g, ' ').trim(), 100);
+      return `• [${formatDateForDisplay(post.createdAt, dateFormat)}](${post.url}) @${post.account.username}: ${snippet}`;
+    });
+
+    // Keep whole lines within the description limit
+    let description = '';
+    let shown = 0;
+    for (const line of lines) {
+      if (description.length + line.length + 1 > 3900) break;
+      description += `${line}\n`;
+      shown++;
+    }
+    if (shown < lines.length) {
+      description += `…and ${lines.length - shown} more`;
+    }
+
+    const embed = new EmbedBuilder()
+      .setTitle(title)
+      .setColor('#FF5700')
+      .setDescription(description)
+      .setFooter({ 
+        text: 'Truth Social',
+        iconURL: 'https://i.imgur.com/XptPTJY.png'
+      });
+
+    await this.sendToChannel(channelId, { embeds: [embed] });
+  }
 
+  // Throws if no channel got the post, see broadcast
+  async sendRedditUpdate(post: RedditPost): Promise<void> {
     // Try to extract an image from the content
     const imageUrl = extractMediaUrl(post.content || '').url;
     
@@ -256,15 +326,7 @@ class DiscordClient {
     content = content.replace(/<\/?[^>]+(>|$)/g, ''); // Remove remaining HTML tags
     content = truncateText(content.trim(), this.countLinks(content) > 2 ? 200 : 1000);
     
-    // Format date nicely
-    const formattedDate = new Date(post.created * 1000).toLocaleString('en-US', {
-      weekday: 'short',
-      month: 'short', 
-      day: 'numeric',
-      year: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
+    const created = new Date(post.created * 1000);
 
     // Create fields for the embed
     const fields: APIEmbedField[] = [];
@@ -281,7 +343,7 @@ class DiscordClient {
     fields.push(
       {
         name: '🕒 Posted',
-        value: formattedDate,
+        value: `${discordTimestamp(created, 'F')}\n${discordTimestamp(created, 'R')}`,
         inline: true
       },
       {
@@ -300,40 +362,38 @@ class DiscordClient {
       });
     }
 
-    try {
-      const embed = new EmbedBuilder()
-        .setTitle(truncateText(post.title, 256))
-        .setURL(post.url)
-        .setColor(Colors.Red)
-        .addFields(fields)
-        .setTimestamp(new Date(post.created * 1000))
-        .setFooter({ 
-          text: `Reddit • Post ID: ${post.id}`,
-          iconURL: 'https://i.imgur.com/XptPTJY.png'
-        });
-
-      // Set thumbnail or image based on content
-      if (imageUrl) {
-        if (content.length > 200) {
-          // Use as thumbnail for longer posts
-          embed.setThumbnail(imageUrl);
-        } else {
-          // Use as main image for shorter posts
-          embed.setImage(imageUrl);
-        }
+    const embed = new EmbedBuilder()
+      .setTitle(truncateText(post.title, 256))
+      .setURL(post.url)
+      .setColor(Colors.Red)
+      .addFields(fields)
+      .setTimestamp(created);
+
+    // Set thumbnail or image based on content
+    if (imageUrl) {
+      if (content.length > 200) {
+        // Use as thumbnail for longer posts
+        embed.setThumbnail(imageUrl);
+      } else {
+        // Use as main image for shorter posts
+        embed.setImage(imageUrl);
       }
+    }
 
-      // Set author with Trump Tracker branding
-      embed.setAuthor({
-        name: 'Trump Tracker',
-        iconURL: 'https://styles.redditmedia.com/t5_3bzq5y/styles/communityIcon_zbjrw2zr18e61.png', 
-        url: 'https://www.reddit.com/r/TrumpTracker/'
-      });
+    // Set author with Trump Tracker branding
+    embed.setAuthor({
+      name: 'Trump Tracker',
+      iconURL: 'https://styles.redditmedia.com/t5_3bzq5y/styles/communityIcon_zbjrw2zr18e61.png', 
+      url: `https://www.reddit.com/r/${post.subreddit || 'TrumpTracker'}/`
+    });
 
-      await channel.send({ embeds: [embed] });
-    } catch (error) {
-      console.error('Error sending Reddit update:', error);
-    }
+    // The footer has the time in each channel's format
+    await this.broadcast(dateFormat => ({
+      embeds: [EmbedBuilder.from(embed).setFooter({
+        text: `Reddit • Post ID: ${post.id} • ${formatDateForDisplay(created, dateFormat)}`,
+        iconURL: 'https://i.imgur.com/XptPTJY.png'
+      })]
+    }));
   }
 
   // Helper method to count links in content
@@ -343,5 +403,3 @@ class DiscordClient {
     return matches ? matches.length : 0;
   }
 }
-
-export default new DiscordClient(); 
\ No newline at end of file
@@ -0,0 +1,370 @@
+import { APIEmbedField, EmbedBuilder, Colors, ColorResolvable } from 'discord.js';
+import { DEFAULT_DATE_FORMAT, DateFormat, discordTimestamp, formatDateForDisplay, getHourInTimezone } from './dateFormat';
+import { escapeDiscordMarkdown, htmlToDiscordMarkdown } from './postHtml';
+import { getPostKind } from './postSource';
+import { PostKind, TruthSocialPost, TruthSocialReplyParent } from './types';
+import { UrgencyTier } from './urgencyTiers';
+
+// Rendering of Truth Social posts into Discord embeds, shared by alerts and slash commands
+
+// Utility function to truncate text if it's too long
+export function truncateText(text: string, maxLength: number = 2000): string {
+  if (!text || text.length <= maxLength) {
+    return text;
+  }
+  return text.substring(0, maxLength - 3) + '...';
+}
+
+// Thousands separators for engagement counts
+export function formatCount(count: number): string {
+  return (count ?? 0).toLocaleString('en-US');
+}
+
+// Hostname for display, falling back to the raw URL if it doesn't parse
+function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+// How a post is rendered: as first posted, after it changed on Truth Social, or looked up from the archive
+export type PostState = 'new' | 'edited' | 'deleted' | 'archived';
+
+// Title prefix and color for new posts of each urgency tier
+const TIER_STYLES: Record<UrgencyTier, { title: string; color: ColorResolvable }> = {
+  normal: { title: '📢 New Truth Social Post', color: '#FF5700' },
+  breaking: { title: '🚨 BREAKING Truth Social Post', color: '#D0021B' }
+};
+
+// Title of a new post of each kind. Breaking posts keep the BREAKING title whatever their kind.
+const KIND_TITLES: Record<PostKind, string> = {
+  original: TIER_STYLES.normal.title,
+  repost: '🔁 ReTruth',
+  quote: '💬 Quote Post',
+  reply: '↩️ Reply'
+};
+
+// Discord shows at most four images from embeds sharing a URL as one gallery
+const MAX_GALLERY_IMAGES = 4;
+
+// Discord's limits on one embed's description and on all embeds of a message together
+const MAX_DESCRIPTION_LENGTH = 4096;
+const MAX_MESSAGE_EMBED_LENGTH = 6000;
+
+// Characters Discord counts towards a message's embed limit
+function embedLength(embed: EmbedBuilder): number {
+  const { title, description, footer, author, fields } = embed.data;
+  return (title?.length ?? 0) + (description?.length ?? 0) + (footer?.text.length ?? 0) + (author?.name.length ?? 0)
+    + (fields ?? []).reduce((total, field) => total + field.name.length + field.value.length, 0);
+}
+
+// Where to cut text to at most `max` characters: a paragraph break, then a line break, then a space
+function findBreak(text: string, max: number): number {
+  for (const separator of ['\n\n', '\n', ' ']) {
+    const index = text.lastIndexOf(separator, max - separator.length);
+    if (index > max / 2) {
+      return index;
+    }
+  }
+  return max;
+}
+
+// Splits post text into embed descriptions totalling at most `budget` characters.
+// Whatever doesn't fit is cut off with a link to the full post.
+export function splitPostText(text: string, budget: number, url: string): string[] {
+  const notice = `\n\n… [Read the full post on Truth Social](${url})`;
+  const chunks: string[] = [];
+  let rest = text.trim();
+  let remaining = budget;
+
+  while (rest.length > 0) {
+    const limit = Math.min(MAX_DESCRIPTION_LENGTH, remaining);
+    if (rest.length <= limit) {
+      chunks.push(rest);
+      break;
+    }
+    if (rest.length > remaining && remaining <= MAX_DESCRIPTION_LENGTH) {
+      const room = Math.max(0, remaining - notice.length);
+      chunks.push(rest.slice(0, findBreak(rest, room)).trimEnd() + notice);
+      break;
+    }
+    const chunk = rest.slice(0, findBreak(rest, limit)).trimEnd();
+    chunks.push(chunk);
+    remaining -= chunk.length;
+    rest = rest.slice(chunk.length).trimStart();
+  }
+
+  return chunks;
+}
+
+// Posts from before the HTML was kept only have plain text
+function renderPostText(post: TruthSocialPost): string {
+  return post.contentHtml ? htmlToDiscordMarkdown(post.contentHtml) : escapeDiscordMarkdown(post.content);
+}
+
+// Helper function to format video duration
+export function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.round(seconds % 60);
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+}
+
+// The tier only changes how new posts are styled, callers classify with UrgencyClassifier.
+// The date format is the channel's, see DiscordClient.dateFormatFor.
+export function buildTruthSocialEmbeds(
+  post: TruthSocialPost,
+  state: PostState = 'new',
+  tier: UrgencyTier = 'normal',
+  dateFormat: DateFormat = DEFAULT_DATE_FORMAT
+): EmbedBuilder[] {
+  const { account } = post;
+  const kind = getPostKind(post);
+  // ReTruths are shown under the original author, with the reposter in the title
+  const shown = post.reposted ?? post;
+  const tierStyle = TIER_STYLES[tier];
+  const title = {
+    new: `${tier === 'normal' ? KIND_TITLES[kind] : tierStyle.title} from ${account.displayName}`,
+    edited: `✏️ Edited Truth Social Post from ${account.displayName}`,
+    deleted: `🗑️ Deleted Truth Social Post from ${account.displayName}`,
+    archived: `🗄️ Truth Social Post from ${account.displayName}`
+  }[state];
+
+  // Create fields for the embed
+  const fields: APIEmbedField[] = [
+    {
+      name: '🕒 Posted',
+      // Shown in each reader's own time, the footer has it in the channel's format
+      value: `${discordTimestamp(post.createdAt, 'F')}\n${discordTimestamp(post.createdAt, 'R')}`,
+      inline: true
+    },
+    {
+      name: '🔗 Source',
+      value: `[Truth Social](${account.url})`,
+      inline: true
+    }
+  ];
+
+  // Handle media attachments
+  const media = post.media_attachments ?? [];
+  const images = media.filter(attachment => attachment.type === 'image');
+  const videos = media.filter(attachment => attachment.type === 'video' || attachment.type === 'gifv');
+
+  const embed = new EmbedBuilder()
+    .setURL(post.url)
+    .setColor(tierStyle.color)
+    .setTitle(title)
+    .setFooter({ 
+      text: `Truth Social • ${formatDateForDisplay(post.createdAt, dateFormat)}`,
+      iconURL: 'https://i.imgur.com/XptPTJY.png'
+    });
+
+  // Set author with the account's own name and avatar
+  embed.setAuthor({
+    name: `${shown.account.displayName} (@${shown.account.username})`,
+    url: shown.account.url,
+    iconURL: shown.account.avatar || undefined
+  });
+
+  if (kind === 'reply' && post.inReplyTo) {
+    embed.addFields({ name: '↩️ Replying to', value: describeReplyParent(post.inReplyTo), inline: false });
+  }
+
+  // Videos can't play inside embeds, so link each one with its length above the usual fields
+  videos.forEach((video, index) => {
+    const duration = video.meta?.original?.duration;
+    const label = videos.length > 1 ? `Video ${index + 1}` : 'Click to view video';
+    embed.addFields({
+      name: `📹 ${label}${duration ? ` (${formatDuration(duration)})` : ''}`,
+      value: `[${truncateText(video.url, 500)}](${video.url})`,
+      inline: false
+    });
+  });
+
+  // Link preview card gets its own field, with its image as the thumbnail
+  if (post.card) {
+    const source = post.card.providerName || getHostname(post.card.url);
+    const description = post.card.description ? `\n${truncateText(post.card.description, 300)}` : '';
+    embed.addFields({
+      name: `🔗 ${truncateText(post.card.title, 250)}`,
+      value: `[${source}](${post.card.url})${description}`,
+      inline: false
+    });
+    if (post.card.image) {
+      embed.setThumbnail(post.card.image);
+    }
+  }
+
+  if (images.length > MAX_GALLERY_IMAGES) {
+    embed.addFields({
+      name: '🖼️ More images',
+      value: `[+${images.length - MAX_GALLERY_IMAGES} more on Truth Social](${post.url})`,
+      inline: false
+    });
+  }
+
+  embed.addFields(fields);
+
+  // Live counts, refreshed in place while the post is being tracked
+  embed.addFields({
+    name: '📊 Engagement',
+    value: `💬 ${formatCount(shown.repliesCount)} · 🔁 ${formatCount(shown.reblogsCount)} · ❤️ ${formatCount(shown.favouritesCount)}`,
+    inline: false
+  });
+
+  if (state === 'deleted') {
+    embed
+      .setColor(Colors.DarkGrey)
+      .addFields({
+        name: '🗑️ Deleted',
+        value: 'This post was removed from Truth Social, the text above is an archived copy.',
+        inline: false
+      });
+  }
+
+  // Show the first image, or the video's preview frame for video-only posts
+  const mainImage = images[0]?.url || videos.find(video => video.preview_url)?.preview_url;
+  if (mainImage) {
+    embed.setImage(mainImage);
+  }
+
+  // Discord groups embeds that share a URL into a single gallery of up to four images
+  const galleryEmbeds = images.slice(1, MAX_GALLERY_IMAGES).map(image =>
+    new EmbedBuilder().setURL(post.url).setImage(image.url));
+
+  if (kind === 'quote' && !post.quoted) {
+    embed.addFields({ name: '💬 Quoting', value: 'The quoted post is not available.', inline: false });
+  }
+  const quotedEmbeds = kind === 'quote' && post.quoted ? [buildQuotedEmbed(post.quoted)] : [];
+
+  // The text goes last so it can use whatever room the rest of the message leaves.
+  // Continuations have no URL, Discord would fold them into the image gallery otherwise.
+  const usedLength = [embed, ...galleryEmbeds, ...quotedEmbeds].reduce((total, other) => total + embedLength(other), 0);
+  const [description, ...continued] = splitPostText(renderPostText(post), MAX_MESSAGE_EMBED_LENGTH - usedLength, post.url);
+  if (description) {
+    embed.setDescription(description);
+  }
+  const continuationEmbeds = continued.map(text => new EmbedBuilder().setColor(embed.data.color ?? null).setDescription(text));
+
+  return [embed, ...galleryEmbeds, ...continuationEmbeds, ...quotedEmbeds];
+}
+
+// Who a reply answers, with a snippet of the parent post when we have it
+function describeReplyParent(parent: TruthSocialReplyParent): string {
+  const who = parent.post
+    ? `${parent.post.account.displayName} (@${parent.post.account.username})`
+    : parent.username ? `@${parent.username}` : 'another post';
+  const link = parent.url ? `[${who}](${parent.url})` : who;
+  const snippet = parent.post?.content ? `\n> ${escapeDiscordMarkdown(truncateText(parent.post.content.replace(/\s+/g, ' ').trim(), 300))}` : '';
+  return `${link}${snippet}`;
+}
+
+// The quoted post as a smaller embed under the alert, its own URL keeps it out of the image gallery
+function buildQuotedEmbed(quoted: TruthSocialPost): EmbedBuilder {
+  const embed = new EmbedBuilder()
+    .setColor(Colors.Greyple)
+    .setAuthor({
+      name: `💬 Quoting ${quoted.account.displayName} (@${quoted.account.username})`,
+      url: quoted.url,
+      iconURL: quoted.account.avatar || undefined
+    })
+    .setURL(quoted.url)
+    .setTimestamp(new Date(quoted.createdAt));
+
+  if (quoted.content.trim().length > 0) {
+    embed.setDescription(escapeDiscordMarkdown(truncateText(quoted.content, 1000)));
+  }
+
+  const media = quoted.media_attachments ?? [];
+  const image = media.find(attachment => attachment.type === 'image')?.url || media.find(attachment => attachment.preview_url)?.preview_url;
+  if (image) {
+    embed.setImage(image);
+  }
+  if (media.length > 0) {
+    embed.addFields({ name: '📎 Media', value: `[${media.length} attachment${media.length === 1 ? '' : 's'} on Truth Social](${quoted.url})` });
+  }
+
+  return embed;
+}
+
+function buildHourlyHistogram(posts: TruthSocialPost[], timeZone: string): string {
+  const counts = new Array<number>(24).fill(0);
+  posts.forEach(post => counts[getHourInTimezone(new Date(post.createdAt), timeZone)]++);
+
+  const max = Math.max(...counts, 1);
+  const maxBarWidth = 15;
+  const rows = counts.map((count, hour) => {
+    const bar = '█'.repeat(Math.ceil((count / max) * maxBarWidth));
+    return `${hour.toString().padStart(2, '0')} ${bar}${count > 0 ? ` ${count}` : ''}`;
+  });
+
+  return '```\n' + rows.join('\n') + '\n```';
+}
+
+function engagementScore(post: TruthSocialPost): number {
+  return post.favouritesCount + post.reblogsCount + post.repliesCount;
+}
+
+// Summary of a period's posts for channels that opted into digests, with dates and hours in the channel's format
+export function buildDigestEmbed(title: string, posts: TruthSocialPost[], from: Date, to: Date, dateFormat: DateFormat): EmbedBuilder {
+  const { timeZone } = dateFormat;
+  const period = `${formatDateForDisplay(from, dateFormat)} – ${formatDateForDisplay(to, dateFormat)}`;
+  const embed = new EmbedBuilder()
+    .setTitle(title)
+    .setColor('#FF5700')
+    .setTimestamp(to)
+    .setFooter({ 
+      text: 'Truth Social',
+      iconURL: 'https://i.imgur.com/XptPTJY.png'
+    });
+
+  if (posts.length === 0) {
+    return embed.setDescription(`No posts between ${period}.`);
+  }
+
+  const accounts = new Set(posts.map(post => post.account.username));
+  embed.setDescription(
+    `**${posts.length}** posts from ${[...accounts].map(username => `@${username}`).join(', ')}\n${period}`
+  );
+
+  embed.addFields({
+    name: `📈 Activity by hour (${timeZone})`,
+    value: buildHourlyHistogram(posts, timeZone),
+    inline: false
+  });
+
+  const topPosts = [...posts].sort((a, b) => engagementScore(b) - engagementScore(a)).slice(0, 5);
+  embed.addFields({
+    name: '🔥 Top posts',
+    value: truncateText(topPosts.map((post, index) => {
+      const snippet = truncateText((post.content || '(media only)').replace(/\s+/g, ' ').trim(), 80);
+      return `${index + 1}. [${snippet}](${post.url}) ❤️ ${formatCount(post.favouritesCount)} · 🔁 ${formatCount(post.reblogsCount)}`;
+    }).join('\n'), 1024),
+    inline: false
+  });
+
+  const hasType = (post: TruthSocialPost, ...types: string[]) =>
+    (post.media_attachments ?? []).some(attachment => types.includes(attachment.type));
+  const withImages = posts.filter(post => hasType(post, 'image')).length;
+  const withVideos = posts.filter(post => hasType(post, 'video', 'gifv')).length;
+  const textOnly = posts.filter(post => (post.media_attachments ?? []).length === 0).length;
+  const reposts = posts.filter(post => post.isRepost).length;
+  embed.addFields({
+    name: '🖼️ Media',
+    value: `🖼️ ${withImages} with images · 📹 ${withVideos} with video · 📝 ${textOnly} text only · 🔁 ${reposts} ReTruths`,
+    inline: false
+  });
+
+  // Distinct links shared through link preview cards
+  const links = [...new Map(posts.filter(post => post.card).map(post => [post.card!.url, post.card!])).values()].slice(0, 5);
+  if (links.length > 0) {
+    embed.addFields({
+      name: '🔗 Shared links',
+      value: truncateText(links.map(card => `• [${truncateText(card.title, 80)}](${card.url})`).join('\n'), 1024),
+      inline: false
+    });
+  }
+
+  return embed;
+}
@@ -0,0 +1,410 @@
+import fs from 'fs';
+import path from 'path';
+import { DateFormat } from './dateFormat';
+import { FilterRule } from './filterRules';
+import {
+  AnnouncedPost,
+  ArchivedPost,
+  DeliveryMode,
+  DeliveryTarget,
+  DigestSchedule,
+  OutboxItem,
+  StateSnapshot,
+  StateStore,
+  Subscription,
+  assertInitialized,
+  buildArchivedPost,
+  emptyStateSnapshot
+} from './stateStore';
+import { TruthSocialPost } from './types';
+
+// Thrown by writes made before the file was loaded
+const NOT_READY = 'State file not loaded';
+
+// Keeps all state in memory and writes it to one JSON file after every change.
+// Meant for a single bot on one host without a CouchDB server, the whole archive is rewritten on each save.
+export class FileStateStore implements StateStore {
+  private initialized = false;
+  private truthSocialCursors = new Map<string, string>();
+  private redditCursors = new Map<string, string>();
+  // Keyed by document ID, the same IDs CouchDB uses so state can move between the two
+  private subscriptions = new Map<string, Subscription>();
+  private outbox = new Map<string, OutboxItem>();
+  private announced = new Map<string, AnnouncedPost>();
+  private archive = new Map<string, ArchivedPost>();
+  private writing: Promise<void> = Promise.resolve();
+  private dirty = false;
+
+  constructor(private file: string) {}
+
+  get isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  // A missing file is a fresh start. One that doesn't parse is left alone and the store stays
+  // uninitialized, so a bad edit can't be overwritten with empty state.
+  async connect(): Promise<void> {
+    if (this.initialized) return;
+
+    let snapshot = emptyStateSnapshot();
+    try {
+      snapshot = { ...snapshot, ...JSON.parse(await fs.promises.readFile(this.file, 'utf8')) };
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.error(`Could not read state file ${this.file}, fix or remove it and restart:`, error);
+        return;
+      }
+      console.log(`Creating state file: ${this.file}`);
+    }
+
+    this.load(snapshot);
+    this.initialized = true;
+    console.log(`Loaded state from ${this.file}`);
+  }
+
+  private load(snapshot: StateSnapshot): void {
+    for (const [handle, postId] of Object.entries(snapshot.truthSocialCursors)) this.truthSocialCursors.set(handle, postId);
+    for (const [subreddit, postId] of Object.entries(snapshot.redditCursors)) this.redditCursors.set(subreddit, postId);
+    for (const doc of snapshot.subscriptions) this.subscriptions.set(doc._id, withoutRev(doc));
+    for (const doc of snapshot.outbox) this.outbox.set(doc._id, withoutRev(doc));
+    for (const doc of snapshot.announced) this.announced.set(doc._id, withoutRev(doc));
+    for (const doc of snapshot.archive) this.archive.set(doc._id, withoutRev(doc));
+  }
+
+  // Saves are chained so they land in order, changes made while one is being written share the next one
+  private save(): Promise<void> {
+    this.dirty = true;
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        if (!this.dirty) return;
+        this.dirty = false;
+        await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+        // Write then rename, so a crash mid-write never leaves a truncated file
+        const temp = `${this.file}.tmp`;
+        await fs.promises.writeFile(temp, JSON.stringify(this.snapshot()));
+        await fs.promises.rename(temp, this.file);
+      });
+    return this.writing;
+  }
+
+  private snapshot(): StateSnapshot {
+    return {
+      truthSocialCursors: Object.fromEntries(this.truthSocialCursors),
+      redditCursors: Object.fromEntries(this.redditCursors),
+      subscriptions: [...this.subscriptions.values()],
+      outbox: [...this.outbox.values()],
+      announced: [...this.announced.values()],
+      archive: [...this.archive.values()]
+    };
+  }
+
+  async getLastSeenTruthSocialPost(handle: string): Promise<string | undefined> {
+    return this.truthSocialCursors.get(handle.toLowerCase());
+  }
+
+  async updateLastSeenTruthSocialPost(handle: string, postId: string): Promise<void> {
+    if (!this.initialized) {
+      console.log('State file not loaded, skipping Truth Social post update');
+      return;
+    }
+
+    this.truthSocialCursors.set(handle.toLowerCase(), postId);
+    try {
+      await this.save();
+    } catch (error) {
+      console.error('Error updating last seen Truth Social post:', error);
+    }
+  }
+
+  async getLastSeenRedditPost(subreddit: string): Promise<string | undefined> {
+    return this.redditCursors.get(subreddit.toLowerCase());
+  }
+
+  async updateLastSeenRedditPost(subreddit: string, postId: string): Promise<void> {
+    if (!this.initialized) {
+      console.log('State file not loaded, skipping Reddit post update');
+      return;
+    }
+
+    this.redditCursors.set(subreddit.toLowerCase(), postId);
+    try {
+      await this.save();
+    } catch (error) {
+      console.error('Error updating last seen Reddit post:', error);
+    }
+  }
+
+  async recordAnnouncedMessage(post: TruthSocialPost, contentHash: string, channelId: string, messageId: string): Promise<void> {
+    assertInitialized(this, NOT_READY);
+
+    const id = `announced:${post.id}`;
+    const doc: AnnouncedPost = this.announced.get(id) ?? {
+      _id: id,
+      type: 'announced',
+      postId: post.id,
+      handle: post.account.username.toLowerCase(),
+      postCreatedAt: post.createdAt,
+      post,
+      contentHash,
+      status: 'active',
+      messages: [],
+      editCount: 0
+    };
+    if (doc.messages.some(message => message.channelId === channelId && message.messageId === messageId)) {
+      return;
+    }
+
+    this.announced.set(id, { ...doc, messages: [...doc.messages, { channelId, messageId }] });
+    await this.save();
+  }
+
+  async getActiveAnnouncedPosts(handle: string, since: Date): Promise<AnnouncedPost[]> {
+    const key = handle.toLowerCase();
+    const sinceIso = since.toISOString();
+    return [...this.announced.values()]
+      .filter(doc => doc.handle === key && doc.status === 'active' && doc.postCreatedAt >= sinceIso)
+      .slice(0, 200)
+      .map(doc => structuredClone(doc));
+  }
+
+  async updateAnnouncedPost(doc: AnnouncedPost): Promise<void> {
+    assertInitialized(this, NOT_READY);
+
+    this.announced.set(doc._id, structuredClone(doc));
+    await this.save();
+  }
+
+  // Store new posts and refresh changed ones. Unchanged posts don't cause a save.
+  async archivePosts(posts: TruthSocialPost[]): Promise<void> {
+    if (!this.initialized || posts.length === 0) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    let changed = false;
+    for (const post of posts) {
+      const id = `post:${post.id}`;
+      const doc = buildArchivedPost(id, post, this.archive.get(id), now);
+      if (!doc) continue;
+
+      this.archive.set(id, doc);
+      changed = true;
+    }
+
+    if (changed) {
+      try {
+        await this.save();
+      } catch (error) {
+        console.error('Error archiving posts:', error);
+      }
+    }
+  }
+
+  async getArchivedPost(postId: string): Promise<ArchivedPost | null> {
+    assertInitialized(this, NOT_READY);
+
+    const doc = this.archive.get(`post:${postId}`);
+    return doc ? structuredClone(doc) : null;
+  }
+
+  // Posts made in [from, to), newest first
+  async getArchivedPostsBetween(from: Date, to: Date, limit: number = 1000): Promise<ArchivedPost[]> {
+    assertInitialized(this, NOT_READY);
+
+    const fromIso = from.toISOString();
+    const toIso = to.toISOString();
+    return [...this.archive.values()]
+      .filter(doc => doc.createdAt >= fromIso && doc.createdAt < toIso)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit)
+      .map(doc => structuredClone(doc));
+  }
+
+  // Posts containing every term, optionally within [from, to), newest first
+  async searchArchivedPosts(query: string, from?: Date, to?: Date, limit: number = 100): Promise<ArchivedPost[]> {
+    assertInitialized(this, NOT_READY);
+
+    const terms = query.toLowerCase().split(/[^\w#@']+/).filter(term => term.length > 0);
+    const inRange = await this.getArchivedPostsBetween(from ?? new Date(0), to ?? new Date(), Infinity);
+    return inRange
+      .filter(doc => terms.every(term => doc.post.content.toLowerCase().includes(term)))
+      .slice(0, limit);
+  }
+
+  async getSubscriptions(guildId?: string): Promise<Subscription[]> {
+    return [...this.subscriptions.values()]
+      .filter(doc => !guildId || doc.guildId === guildId)
+      .map(doc => structuredClone(doc));
+  }
+
+  async getSubscription(channelId: string): Promise<Subscription | null> {
+    assertInitialized(this, NOT_READY);
+
+    const doc = this.subscriptions.get(`subscription:${channelId}`);
+    return doc ? structuredClone(doc) : null;
+  }
+
+  // Returns false if the channel was already subscribed
+  async addSubscription(
+    guildId: string,
+    channelId: string,
+    createdBy: string,
+    delivery: DeliveryMode = 'realtime'
+  ): Promise<boolean> {
+    assertInitialized(this, NOT_READY);
+
+    const id = `subscription:${channelId}`;
+    if (this.subscriptions.has(id)) {
+      return false;
+    }
+
+    this.subscriptions.set(id, {
+      _id: id,
+      type: 'subscription',
+      guildId,
+      channelId,
+      createdBy,
+      createdAt: new Date().toISOString(),
+      delivery
+    });
+    await this.save();
+    return true;
+  }
+
+  // Returns false if the channel had no subscription
+  async removeSubscription(channelId: string): Promise<boolean> {
+    assertInitialized(this, NOT_READY);
+
+    if (!this.subscriptions.delete(`subscription:${channelId}`)) {
+      return false;
+    }
+    await this.save();
+    return true;
+  }
+
+  // Returns the updated subscription, or null if the channel has no subscription
+  async setSubscriptionDelivery(
+    channelId: string,
+    delivery: DeliveryMode,
+    digestSchedule?: DigestSchedule
+  ): Promise<Subscription | null> {
+    const updated = await this.updateSubscription(channelId, doc => ({
+      ...doc,
+      delivery,
+      digestSchedule: digestSchedule ?? doc.digestSchedule
+    }));
+    return updated ? structuredClone(updated) : null;
+  }
+
+  // Pass undefined to stop pinging. Returns false if the channel has no subscription.
+  async setSubscriptionMentionRole(channelId: string, roleId: string | undefined): Promise<boolean> {
+    const updated = await this.updateSubscription(channelId, ({ mentionRoleId: _previous, ...doc }) =>
+      roleId ? { ...doc, mentionRoleId: roleId } : doc);
+    return updated !== null;
+  }
+
+  // Pass undefined to clear the filter. Returns false if the channel has no subscription.
+  async setSubscriptionFilter(channelId: string, filter: FilterRule | undefined): Promise<boolean> {
+    const updated = await this.updateSubscription(channelId, ({ filter: _previous, ...doc }) =>
+      filter ? { ...doc, filter } : doc);
+    return updated !== null;
+  }
+
+  // Pass undefined to go back to the DISPLAY_* settings. Returns false if the channel has no subscription.
+  async setSubscriptionDateFormat(channelId: string, dateFormat: Partial<DateFormat> | undefined): Promise<boolean> {
+    const updated = await this.updateSubscription(channelId, ({ dateFormat: _previous, ...doc }) =>
+      dateFormat ? { ...doc, dateFormat } : doc);
+    return updated !== null;
+  }
+
+  private async updateSubscription(channelId: string, update: (doc: Subscription) => Subscription): Promise<Subscription | null> {
+    assertInitialized(this, NOT_READY);
+
+    const id = `subscription:${channelId}`;
+    const doc = this.subscriptions.get(id);
+    if (!doc) {
+      return null;
+    }
+
+    const updated = update(doc);
+    this.subscriptions.set(id, updated);
+    await this.save();
+    return updated;
+  }
+
+  // Queue a post for each channel. Items already queued for a post/channel pair are left alone.
+  async enqueueOutboxItems(post: TruthSocialPost, targets: DeliveryTarget[]): Promise<void> {
+    assertInitialized(this, NOT_READY);
+
+    const now = new Date().toISOString();
+    for (const { channelId, mentionRoleId } of targets) {
+      const id = `outbox:${post.id}:${channelId}`;
+      if (this.outbox.has(id)) continue;
+      this.outbox.set(id, {
+        _id: id,
+        type: 'outbox',
+        channelId,
+        ...(mentionRoleId ? { mentionRoleId } : {}),
+        post,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now
+      });
+    }
+    await this.save();
+  }
+
+  async getPendingOutboxItems(): Promise<OutboxItem[]> {
+    return [...this.outbox.values()]
+      .filter(item => item.status === 'pending')
+      .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt))
+      .map(item => structuredClone(item));
+  }
+
+  async pruneOutboxItems(deliveredBefore: Date, deadBefore: Date): Promise<number> {
+    assertInitialized(this, NOT_READY);
+
+    const delivered = deliveredBefore.toISOString();
+    const dead = deadBefore.toISOString();
+    let removed = 0;
+    for (const [id, item] of this.outbox) {
+      if ((item.status === 'delivered' && (item.deliveredAt ?? item.createdAt) < delivered) ||
+          (item.status === 'dead' && item.nextAttemptAt < dead)) {
+        this.outbox.delete(id);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      await this.save();
+    }
+    return removed;
+  }
+
+  async updateOutboxItem(item: OutboxItem): Promise<void> {
+    assertInitialized(this, NOT_READY);
+
+    this.outbox.set(item._id, structuredClone(item));
+    await this.save();
+  }
+
+  async exportState(): Promise<StateSnapshot> {
+    assertInitialized(this, NOT_READY);
+
+    return structuredClone(this.snapshot());
+  }
+
+  async importState(snapshot: StateSnapshot): Promise<void> {
+    assertInitialized(this, NOT_READY);
+
+    this.load(structuredClone(snapshot));
+    await this.save();
+  }
+}
+
+// Revisions only mean something to CouchDB
+function withoutRev<T extends { _rev?: string }>(doc: T): T {
+  const { _rev, ...rest } = doc;
+  return rest as T;
+}
@@ -0,0 +1,169 @@
+import { getPostKind } from './postSource';
+import { TruthSocialPost } from './types';
+
+// Per-channel rule deciding which posts get announced. Every condition that is set must pass.
+export interface FilterRule {
+  // Post must contain at least one of these (or match includeRegex)
+  includeKeywords?: string[];
+  // Post is dropped if it contains any of these
+  excludeKeywords?: string[];
+  // Case-insensitive patterns, post must match at least one (or contain an includeKeyword)
+  includeRegex?: string[];
+  // Case-insensitive patterns, post is dropped if any match
+  excludeRegex?: string[];
+  // Only posts with at least one media attachment
+  hasMedia?: boolean;
+  // Only posts without media attachments
+  textOnly?: boolean;
+  // Drop ReTruths of other posts
+  excludeReposts?: boolean;
+  // Drop posts quoting another post
+  excludeQuotes?: boolean;
+  // Drop replies, including replies in the account's own threads
+  excludeReplies?: boolean;
+}
+
+const MAX_REGEX_LENGTH = 200;
+
+// Quantifiers that let a group run more than once. A lone ? doesn't count.
+function isRepeat(char: string | undefined): boolean {
+  return char === '*' || char === '+' || char === '{';
+}
+
+// Patterns run against every post on the event loop, so anything that can backtrack catastrophically
+// (a repeated group that itself repeats or alternates, like (a+)+$ or (a|a)*) is refused up front.
+// Returns why the pattern is unsafe, or null. Deliberately strict: (tariff|tax)+ is refused too.
+function findUnsafeRegex(pattern: string): string | null {
+  if (pattern.length > MAX_REGEX_LENGTH) {
+    return `is longer than ${MAX_REGEX_LENGTH} characters`;
+  }
+  if (/\\[1-9]|\\k</.test(pattern)) {
+    return 'uses a backreference';
+  }
+
+  // For each open group, whether it contains a quantifier or an alternation
+  const groups: boolean[] = [];
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      const risky = groups.pop() ?? false;
+      if (risky && isRepeat(pattern[i + 1])) {
+        return 'repeats a group that repeats or alternates itself, which can take forever to match';
+      }
+      if (risky && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    } else if ((char === '|' || isRepeat(char)) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return null;
+}
+
+// Throws with a readable message if any regex in the rule doesn't compile or could stall the bot
+export function validateFilterRule(rule: FilterRule): void {
+  for (const pattern of [...(rule.includeRegex ?? []), ...(rule.excludeRegex ?? [])]) {
+    try {
+      new RegExp(pattern, 'i');
+    } catch (error: any) {
+      throw new Error(`Invalid regex \`${pattern}\`: ${error.message}`);
+    }
+    const unsafe = findUnsafeRegex(pattern);
+    if (unsafe) {
+      throw new Error(`Regex \`${pattern}\` ${unsafe}`);
+    }
+  }
+
+  if (rule.hasMedia && rule.textOnly) {
+    throw new Error('A rule cannot require both media and text only');
+  }
+}
+
+// Compiled patterns, shared by every channel and post. Patterns that don't compile or are unsafe
+// (saved before they were checked) are kept as their error and never run.
+const compiledRegex = new Map<string, RegExp | Error>();
+
+function compileRegex(pattern: string): RegExp {
+  let compiled = compiledRegex.get(pattern);
+  if (!compiled) {
+    try {
+      validateFilterRule({ includeRegex: [pattern] });
+      compiled = new RegExp(pattern, 'i');
+    } catch (error: any) {
+      compiled = error instanceof Error ? error : new Error(String(error));
+    }
+    compiledRegex.set(pattern, compiled);
+  }
+  if (compiled instanceof Error) {
+    throw compiled;
+  }
+  return compiled;
+}
+
+export function isEmptyFilterRule(rule: FilterRule): boolean {
+  return !rule.includeKeywords?.length &&
+    !rule.excludeKeywords?.length &&
+    !rule.includeRegex?.length &&
+    !rule.excludeRegex?.length &&
+    !rule.hasMedia &&
+    !rule.textOnly &&
+    !rule.excludeReposts &&
+    !rule.excludeQuotes &&
+    !rule.excludeReplies;
+}
+
+// Throws if one of the rule's patterns doesn't compile or is unsafe, callers decide whether that fails open
+export function matchesFilterRule(post: TruthSocialPost, rule?: FilterRule): boolean {
+  if (!rule) return true;
+
+  const text = post.content.toLowerCase();
+  const hasMedia = (post.media_attachments?.length ?? 0) > 0;
+  const containsKeyword = (keyword: string) => text.includes(keyword.toLowerCase());
+  const matchesRegex = (pattern: string) => compileRegex(pattern).test(post.content);
+
+  const kind = getPostKind(post);
+  if (rule.excludeReposts && kind === 'repost') return false;
+  if (rule.excludeQuotes && kind === 'quote') return false;
+  if (rule.excludeReplies && kind === 'reply') return false;
+  if (rule.hasMedia && !hasMedia) return false;
+  if (rule.textOnly && hasMedia) return false;
+
+  if (rule.excludeKeywords?.some(containsKeyword)) return false;
+  if (rule.excludeRegex?.some(matchesRegex)) return false;
+
+  const includeKeywords = rule.includeKeywords ?? [];
+  const includeRegex = rule.includeRegex ?? [];
+  if (includeKeywords.length === 0 && includeRegex.length === 0) {
+    return true;
+  }
+
+  return includeKeywords.some(containsKeyword) || includeRegex.some(matchesRegex);
+}
+
+// Human readable one-line-per-condition summary for command replies
+export function describeFilterRule(rule?: FilterRule): string {
+  if (!rule || isEmptyFilterRule(rule)) {
+    return 'No filter, every post is announced.';
+  }
+
+  const lines: string[] = [];
+  if (rule.includeKeywords?.length) lines.push(`Include keywords: ${rule.includeKeywords.join(', ')}`);
+  if (rule.includeRegex?.length) lines.push(`Include regex: ${rule.includeRegex.map(p => `\`${p}\``).join(', ')}`);
+  if (rule.excludeKeywords?.length) lines.push(`Exclude keywords: ${rule.excludeKeywords.join(', ')}`);
+  if (rule.excludeRegex?.length) lines.push(`Exclude regex: ${rule.excludeRegex.map(p => `\`${p}\``).join(', ')}`);
+  if (rule.hasMedia) lines.push('Only posts with media');
+  if (rule.textOnly) lines.push('Only text posts');
+  if (rule.excludeReposts) lines.push('Skip reposts');
+  if (rule.excludeQuotes) lines.push('Skip quote posts');
+  if (rule.excludeReplies) lines.push('Skip replies');
+  return lines.join('\n');
+}
@@ -0,0 +1,75 @@
+import http from 'http';
+import { ConfigService } from './config';
+import { StateStore } from './stateStore';
+import { DiscordSender } from './discordClient';
+import { Metrics } from './metrics';
+import { TruthSocialService } from './truthSocialService';
+
+// Serves /healthz, /readyz and /metrics for monitoring and container orchestration
+export class HealthServer {
+  private port: number;
+  private stalePollMs: number;
+  private readonly startedAt = Date.now();
+
+  constructor(
+    config: ConfigService,
+    private db: StateStore,
+    private discord: DiscordSender,
+    private truthSocialService: TruthSocialService,
+    private metrics: Metrics
+  ) {
+    // 0 turns the server off
+    this.port = config.current.health.port;
+    this.stalePollMs = config.current.health.stalePollMinutes * 60 * 1000;
+  }
+
+  // Returns the server so it can be closed again, null when turned off
+  start(): http.Server | null {
+    if (this.port === 0) return null;
+
+    const server = http.createServer((req, res) => {
+      const path = (req.url ?? '/').split('?')[0];
+      if (req.method !== 'GET') {
+        this.send(res, 405, 'text/plain', 'Method not allowed\n');
+      } else if (path === '/healthz') {
+        this.handleHealth(res);
+      } else if (path === '/readyz') {
+        const ready = this.discord.ready && this.db.isInitialized;
+        this.send(res, ready ? 200 : 503, 'text/plain', ready ? 'ok\n' : 'not ready\n');
+      } else if (path === '/metrics') {
+        this.send(res, 200, 'text/plain; version=0.0.4', this.metrics.render());
+      } else {
+        this.send(res, 404, 'text/plain', 'Not found\n');
+      }
+    });
+
+    server.on('error', error => {
+      console.error(`Health server error on port ${this.port}:`, error);
+    });
+    server.listen(this.port, () => {
+      console.log(`Health server listening on port ${this.port}`);
+    });
+    return server;
+  }
+
+  // Unhealthy when Discord or the state store is down, or when no poll has succeeded for a while
+  private handleHealth(res: http.ServerResponse): void {
+    const lastPoll = this.truthSocialService.lastSuccessfulPollAt;
+    // Give a fresh start the same grace period before the first poll has to succeed
+    const pollAgeMs = Date.now() - (lastPoll?.getTime() ?? this.startedAt);
+    const pollsHealthy = pollAgeMs < this.stalePollMs;
+
+    const body = {
+      status: this.discord.ready && this.db.isInitialized && pollsHealthy ? 'ok' : 'unhealthy',
+      discord: { ready: this.discord.ready },
+      database: { initialized: this.db.isInitialized },
+      polling: { lastSuccessfulPollAt: lastPoll?.toISOString() ?? null, healthy: pollsHealthy }
+    };
+    this.send(res, body.status === 'ok' ? 200 : 503, 'application/json', JSON.stringify(body) + '\n');
+  }
+
+  private send(res: http.ServerResponse, status: number, contentType: string, body: string): void {
+    res.writeHead(status, { 'Content-Type': contentType });
+    res.end(body);
+  }
+}
@@ -0,0 +1,106 @@
+import { Colors, EmbedBuilder } from 'discord.js';
+import { ConfigService } from './config';
+import { DiscordSender } from './discordClient';
+
+// Conditions that mean alerts have stopped flowing. Source problems are tracked per account,
+// so one working account doesn't close the incident another one keeps hitting.
+export type IncidentKey = `source-auth:${string}` | `source-endpoint:${string}` | 'database';
+
+interface Incident {
+  title: string;
+  detail: string;
+  startedAt: Date;
+  // How many times the condition was reported while open, only the first one is announced
+  occurrences: number;
+  // False until an admin actually got the message, Discord may not be connected yet
+  announced: boolean;
+}
+
+function formatElapsed(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `${hours}h${rest > 0 ? ` ${rest}m` : ''}`;
+}
+
+// Tells the admins when the pipeline breaks and when it recovers, once per incident
+export class IncidentTracker {
+  private open = new Map<IncidentKey, Incident>();
+
+  constructor(private config: ConfigService, private discord: DiscordSender) {}
+
+  // Report a condition, only the first report of an open incident reaches the admins
+  async raise(key: IncidentKey, title: string, detail: string): Promise<void> {
+    let incident = this.open.get(key);
+    if (incident) {
+      incident.occurrences++;
+      incident.detail = detail;
+      if (incident.announced) return;
+    } else {
+      incident = { title, detail, startedAt: new Date(), occurrences: 1, announced: false };
+      this.open.set(key, incident);
+      console.error(`Incident opened (${key}): ${title}. ${detail}`);
+    }
+
+    incident.announced = await this.notifyAdmins(new EmbedBuilder()
+      .setTitle(`🔴 ${title}`)
+      .setColor(Colors.Red)
+      .setDescription(detail)
+      .addFields(
+        { name: 'Incident', value: `\`${key}\``, inline: true },
+        { name: 'Started', value: `<t:${Math.floor(incident.startedAt.getTime() / 1000)}:F>`, inline: true }
+      )
+      .setFooter({ text: 'You will get another message when this recovers' })
+      .setTimestamp(incident.startedAt));
+  }
+
+  // Close the incident if one is open, safe to call on every success
+  async resolve(key: IncidentKey): Promise<void> {
+    const incident = this.open.get(key);
+    if (!incident) return;
+
+    this.open.delete(key);
+    const duration = formatElapsed(Date.now() - incident.startedAt.getTime());
+    console.log(`Incident resolved (${key}) after ${duration}`);
+    if (!incident.announced) return;
+
+    await this.notifyAdmins(new EmbedBuilder()
+      .setTitle(`✅ Recovered: ${incident.title}`)
+      .setColor(Colors.Green)
+      .setDescription(`Recovered after ${duration}.`)
+      .addFields(
+        { name: 'Incident', value: `\`${key}\``, inline: true },
+        { name: 'Occurrences', value: String(incident.occurrences), inline: true },
+        { name: 'Last error', value: incident.detail.slice(0, 1000) }
+      )
+      .setTimestamp());
+  }
+
+  // Each admin target is tried separately so one closed DM doesn't hide the incident from the others.
+  // Returns whether anyone got the message.
+  private async notifyAdmins(embed: EmbedBuilder): Promise<boolean> {
+    let delivered = false;
+    const { channelId: adminChannelId, userIds: adminUserIds } = this.config.current.admin;
+
+    if (adminChannelId) {
+      try {
+        await this.discord.sendEmbed(embed, adminChannelId);
+        delivered = true;
+      } catch (error) {
+        console.error(`Error sending incident message to admin channel ${adminChannelId}:`, error);
+      }
+    }
+
+    for (const userId of adminUserIds) {
+      try {
+        await this.discord.sendDirectEmbed(embed, userId);
+        delivered = true;
+      } catch (error) {
+        console.error(`Error sending incident message to admin ${userId}:`, error);
+      }
+    }
+
+    return delivered;
+  }
+}
@@ -1,13 +1,15 @@
 import dotenv from 'dotenv';
-import scheduler from './scheduler';
+import { loadConfigService } from './config';
+import { createApp } from './app';
 
 // Load environment variables
 dotenv.config();
 
 console.log('Starting Trump Tracker Bot...');
 
-// Start the scheduler
-scheduler.start();
+const config = loadConfigService();
+const app = createApp(config);
+app.start();
 
 // Handle process termination
 process.on('SIGINT', () => {
@@ -15,6 +17,12 @@ process.on('SIGINT', () => {
   process.exit(0);
 });
 
+// Reload non-secret settings from the config file, e.g. `docker kill -s HUP <container>`
+process.on('SIGHUP', () => {
+  console.log('Received SIGHUP, reloading config...');
+  config.reload();
+});
+
 process.on('SIGTERM', () => {
   console.log('Trump Tracker Bot is shutting down...');
   process.exit(0);
@@ -0,0 +1,66 @@
+import axios from 'axios';
+import { AppConfig } from './config';
+import { PostPage, PostSource, TruthSocialApiPost, logMediaDebugInfo, mapApiPost } from './postSource';
+
+// Page size, Mastodon caps statuses at 40 per request
+const PAGE_SIZE = 40;
+
+// Reads statuses straight from a Mastodon-compatible API, Truth Social itself by default
+export class MastodonSource implements PostSource {
+  readonly name = 'Mastodon API';
+  private baseUrl: string;
+  private accessToken: string;
+  // Handle -> account ID, lookups never change so they're cached for the process lifetime
+  private accountIds = new Map<string, string>();
+
+  constructor(settings: AppConfig['sources']) {
+    this.baseUrl = settings.mastodonApiUrl;
+    this.accessToken = settings.mastodonAccessToken;
+  }
+
+  // Public statuses don't need a token
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async fetchPosts(handle: string, maxId?: string): Promise<PostPage> {
+    const accountId = await this.lookupAccountId(handle);
+
+    const response = await axios.get<TruthSocialApiPost[]>(`${this.baseUrl}/api/v1/accounts/${accountId}/statuses`, {
+      params: {
+        limit: PAGE_SIZE,
+        ...(maxId ? { max_id: maxId } : {})
+      },
+      headers: this.headers()
+    });
+
+    const statuses = Array.isArray(response.data) ? response.data : [];
+    if (!maxId && statuses.length > 0) {
+      logMediaDebugInfo(statuses[0]);
+    }
+
+    return {
+      posts: statuses.map(mapApiPost),
+      // A short page means we've reached the end of the timeline
+      nextMaxId: statuses.length === PAGE_SIZE ? statuses[statuses.length - 1].id : undefined
+    };
+  }
+
+  private async lookupAccountId(handle: string): Promise<string> {
+    const key = handle.toLowerCase();
+    const cached = this.accountIds.get(key);
+    if (cached) return cached;
+
+    const response = await axios.get<{ id: string }>(`${this.baseUrl}/api/v1/accounts/lookup`, {
+      params: { acct: handle },
+      headers: this.headers()
+    });
+
+    this.accountIds.set(key, response.data.id);
+    return response.data.id;
+  }
+
+  private headers(): Record<string, string> {
+    return this.accessToken ? { Authorization: `Bearer ${this.accessToken}` } : {};
+  }
+}
@@ -0,0 +1,168 @@
+import axios from 'axios';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { AttachmentBuilder } from 'discord.js';
+import { ConfigService } from './config';
+import { MirroredMedia, TruthSocialPost } from './types';
+
+type MediaAttachment = NonNullable<TruthSocialPost['media_attachments']>[number];
+
+// Content types worth re-uploading for each attachment type, with the extension they're stored under
+const ALLOWED_TYPES: Record<string, Record<string, string>> = {
+  image: { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/gif': 'gif', 'image/webp': 'webp' },
+  video: { 'video/mp4': 'mp4', 'video/webm': 'webm', 'video/quicktime': 'mov' }
+};
+
+const DOWNLOAD_TIMEOUT_MS = 30000;
+
+// Freshly fetched posts don't know about the copies made when the post was first queued
+export function keepMirroredMedia(previous: TruthSocialPost, current: TruthSocialPost): TruthSocialPost {
+  const mirrors = new Map((previous.media_attachments ?? []).flatMap(media => media.mirror ? [[media.url, media.mirror]] : []));
+  if (mirrors.size === 0 || !current.media_attachments) {
+    return current;
+  }
+
+  return {
+    ...current,
+    media_attachments: current.media_attachments.map(media => {
+      const mirror = mirrors.get(media.url);
+      return mirror ? { ...media, mirror } : media;
+    })
+  };
+}
+
+// Downloads post media into a content-addressed archive (MEDIA_ARCHIVE_DIR/ab/abcd….jpg) when the post is queued,
+// so alerts can upload their own copies instead of hotlinking the Truth Social CDN, which breaks once a post is deleted
+export class MediaMirror {
+  constructor(private config: ConfigService) {}
+
+  private get settings(): ConfigService['current']['media'] {
+    return this.config.current.media;
+  }
+
+  private get maxBytes(): number {
+    return Math.floor(this.settings.maxMegabytes * 1024 * 1024);
+  }
+
+  // Returns the post with each copy recorded on its attachment. Anything that can't be mirrored stays
+  // a link, a failed download never holds up the alert.
+  async mirror(post: TruthSocialPost): Promise<TruthSocialPost> {
+    if (!this.settings.mirror || !post.media_attachments?.length) {
+      return post;
+    }
+
+    const media: MediaAttachment[] = [];
+    for (const [index, attachment] of post.media_attachments.entries()) {
+      const mirror = attachment.mirror ?? await this.download(attachment, index);
+      media.push(mirror ? { ...attachment, mirror } : attachment);
+    }
+    return { ...post, media_attachments: media };
+  }
+
+  private async download(attachment: MediaAttachment, index: number): Promise<MirroredMedia | null> {
+    const kind = attachment.type === 'gifv' ? 'video' : attachment.type;
+    const extensions = ALLOWED_TYPES[kind];
+    if (!extensions) {
+      return null;
+    }
+
+    // Unknown lengths are left to the size cap
+    const duration = attachment.meta?.original?.duration;
+    if (kind === 'video' && duration !== undefined && duration > this.settings.maxVideoSeconds) {
+      console.log(`Not mirroring ${attachment.url}: ${Math.round(duration)}s is longer than MEDIA_MAX_VIDEO_SECONDS`);
+      return null;
+    }
+
+    try {
+      // axios aborts as soon as the body passes maxContentLength, so oversized files are never fully downloaded
+      const response = await axios.get<ArrayBuffer>(attachment.url, {
+        responseType: 'arraybuffer',
+        maxContentLength: this.maxBytes,
+        timeout: DOWNLOAD_TIMEOUT_MS
+      });
+
+      const contentType = String(response.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+      const extension = extensions[contentType];
+      if (!extension) {
+        console.log(`Not mirroring ${attachment.url}: unexpected content type "${contentType}"`);
+        return null;
+      }
+
+      const data = Buffer.from(response.data);
+      const sha256 = createHash('sha256').update(data).digest('hex');
+      const mirror = { sha256, contentType, bytes: data.length, fileName: `media-${index + 1}.${extension}` };
+      await this.store(mirror, data);
+      return mirror;
+    } catch (error: any) {
+      console.error(`Could not mirror ${attachment.url}, linking it instead: ${error.message}`);
+      return null;
+    }
+  }
+
+  private archivePath(mirror: MirroredMedia): string {
+    return path.join(this.settings.archiveDir, mirror.sha256.slice(0, 2), `${mirror.sha256}${path.extname(mirror.fileName)}`);
+  }
+
+  // The same file is only stored once, however many posts share it
+  private async store(mirror: MirroredMedia, data: Buffer): Promise<void> {
+    const file = this.archivePath(mirror);
+    if (fs.existsSync(file)) {
+      return;
+    }
+
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    const temp = `${file}.tmp`;
+    await fs.promises.writeFile(temp, data);
+    await fs.promises.rename(temp, file);
+  }
+
+  // Which mirrored attachments go up with the alert: in order, while the files together stay under the size cap
+  private uploadsFor(post: TruthSocialPost): Set<number> {
+    const uploads = new Set<number>();
+    let total = 0;
+    (post.media_attachments ?? []).forEach((media, index) => {
+      if (media.mirror && total + media.mirror.bytes <= this.maxBytes) {
+        uploads.add(index);
+        total += media.mirror.bytes;
+      }
+    });
+    return uploads;
+  }
+
+  // Images shown from the uploaded copies instead of the CDN. Videos keep their link, the upload plays on its own.
+  private pointAtUploads(post: TruthSocialPost, uploads: Set<number>): TruthSocialPost {
+    if (uploads.size === 0 || !post.media_attachments) {
+      return post;
+    }
+
+    return {
+      ...post,
+      media_attachments: post.media_attachments.map((media, index) =>
+        uploads.has(index) && media.type === 'image' ? { ...media, url: `attachment://${media.mirror!.fileName}` } : media)
+    };
+  }
+
+  // Files to send with a new alert, and the post to render alongside them
+  async attachmentsFor(post: TruthSocialPost): Promise<{ post: TruthSocialPost; files: AttachmentBuilder[] }> {
+    const uploads = this.uploadsFor(post);
+    const files: AttachmentBuilder[] = [];
+
+    for (const index of uploads) {
+      const mirror = post.media_attachments![index].mirror!;
+      try {
+        files.push(new AttachmentBuilder(await fs.promises.readFile(this.archivePath(mirror)), { name: mirror.fileName }));
+      } catch (error) {
+        console.error(`Mirrored media ${mirror.sha256} is missing from the archive, linking it instead:`, error);
+        uploads.delete(index);
+      }
+    }
+
+    return { post: this.pointAtUploads(post, uploads), files };
+  }
+
+  // The post as it renders when editing an alert, whose uploads are already on the message
+  withUploadedMedia(post: TruthSocialPost): TruthSocialPost {
+    return this.pointAtUploads(post, this.uploadsFor(post));
+  }
+}
@@ -0,0 +1,84 @@
+// Minimal Prometheus text-format metrics, enough for a handful of counters and one histogram
+
+type Labels = Record<string, string>;
+
+function labelKey(labels: Labels): string {
+  // Prometheus wants backslashes and quotes escaped, and newlines written as \n
+  const escape = (value: string) => value.replace(/["\\]/g, '\\$&').replace(/\n/g, '\\n');
+  return Object.keys(labels).sort().map(name => `${name}="${escape(labels[name])}"`).join(',');
+}
+
+function formatSeries(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ''} ${value}`;
+}
+
+export class Counter {
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.values].map(([key, value]) => formatSeries(this.name, key, value))
+    ];
+  }
+}
+
+export class Histogram {
+  private series = new Map<string, { counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private buckets: number[]) {}
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = labelKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry!.counts[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const [key, { counts, sum, count }] of this.series) {
+      const withLe = (le: string) => (key ? `${key},` : '') + `le="${le}"`;
+      this.buckets.forEach((bound, index) => lines.push(formatSeries(`${this.name}_bucket`, withLe(String(bound)), counts[index])));
+      lines.push(formatSeries(`${this.name}_bucket`, withLe('+Inf'), count));
+      lines.push(formatSeries(`${this.name}_sum`, key, sum));
+      lines.push(formatSeries(`${this.name}_count`, key, count));
+    }
+    return lines;
+  }
+}
+
+// Built once by createApp and handed to everything that records or serves metrics
+export class Metrics {
+  readonly polls = new Counter('trump_tracker_polls_total', 'Account polls by source and result');
+  readonly apiErrors = new Counter('trump_tracker_api_errors_total', 'Failed post source requests by HTTP status');
+  readonly postsDetected = new Counter('trump_tracker_posts_detected_total', 'New posts found by account');
+  readonly sends = new Counter('trump_tracker_sends_total', 'Alert deliveries by destination and result');
+  readonly pollDuration = new Histogram(
+    'trump_tracker_poll_duration_seconds',
+    'Time taken to poll one account, including backfill pages',
+    [0.5, 1, 2.5, 5, 10, 30, 60]
+  );
+
+  render(): string {
+    return [this.polls, this.apiErrors, this.postsDetected, this.sends, this.pollDuration]
+      .flatMap(metric => metric.render())
+      .join('\n') + '\n';
+  }
+}
@@ -0,0 +1,55 @@
+import dotenv from 'dotenv';
+import { ConfigError, STATE_BACKENDS, StateBackend, loadConfig } from './config';
+import { createStateStore } from './app';
+import { StateStore, migrateState } from './stateStore';
+
+// Copies all state from one backend to another, e.g. `npm run migrate-state -- couchdb file`.
+// Stop the bot first so nothing changes while the copy runs.
+
+dotenv.config();
+
+const CONNECT_TIMEOUT_MS = 60 * 1000;
+
+async function connectWithin(store: StateStore, name: string): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Could not connect to ${name} within ${CONNECT_TIMEOUT_MS / 1000} seconds`)), CONNECT_TIMEOUT_MS);
+  });
+  try {
+    await Promise.race([store.connect(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+  if (!store.isInitialized) {
+    throw new Error(`Could not open ${name}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const [from, to] = process.argv.slice(2) as StateBackend[];
+  if (!STATE_BACKENDS.includes(from) || !STATE_BACKENDS.includes(to) || from === to) {
+    console.error(`Usage: npm run migrate-state -- <from> <to>, two different backends out of ${STATE_BACKENDS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const config = loadConfig();
+  if ((from === 'couchdb' || to === 'couchdb') && (!config.couchdb.username || !config.couchdb.password)) {
+    throw new ConfigError(['COUCHDB_USERNAME and COUCHDB_PASSWORD are required to migrate to or from couchdb']);
+  }
+
+  const source = createStateStore(config, from);
+  const target = createStateStore(config, to);
+  await connectWithin(source, from);
+  await connectWithin(target, to);
+
+  console.log(`Copying state from ${from} to ${to}...`);
+  const copied = await migrateState(source, target);
+  console.log(`Copied ${copied}. Set STATE_BACKEND=${to} and start the bot.`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Migration failed:', error instanceof ConfigError ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,74 @@
+import { RetryPolicy } from './config';
+import { getPostKind } from './postSource';
+import { TruthSocialPost } from './types';
+import { UrgencyTier } from './urgencyTiers';
+
+// A destination outside Discord that gets every announced post, e.g. Slack or a webhook.
+// Discord itself goes through the Outbox, which tracks delivery per channel.
+export interface Notifier {
+  readonly name: string;
+  // False when required settings such as a webhook URL are missing
+  isConfigured(): boolean;
+  // Throws if the post didn't go out, see isRetryable for which errors get another attempt
+  notify(post: TruthSocialPost, tier: UrgencyTier): Promise<void>;
+}
+
+// Timeouts, network errors, 429s and 5xx are worth another try, any other 4xx means the request itself is wrong
+function isRetryable(error: any): boolean {
+  const status = error?.response?.status;
+  return !status || status === 429 || status >= 500;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Send with exponential backoff, throws the last error once the policy gives up
+export async function notifyWithRetry(
+  notifier: Notifier,
+  policy: RetryPolicy,
+  post: TruthSocialPost,
+  tier: UrgencyTier
+): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await notifier.notify(post, tier);
+      return;
+    } catch (error: any) {
+      if (attempt >= policy.maxAttempts || !isRetryable(error)) {
+        throw error;
+      }
+
+      // Honour Retry-After when the service sends one (seconds)
+      const retryAfter = parseInt(error?.response?.headers?.['retry-after'] ?? '', 10);
+      const delay = Math.min(
+        isNaN(retryAfter) ? policy.baseDelayMs * 2 ** (attempt - 1) : retryAfter * 1000,
+        policy.maxDelayMs
+      );
+      console.warn(
+        `${notifier.name} failed for post ${post.id} (attempt ${attempt}), ` +
+        `retrying in ${Math.round(delay / 1000)}s: ${error?.message}`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+// Plain text of a post for services without rich embeds
+export function formatPostText(post: TruthSocialPost): string {
+  const author = `@${post.account.username}`;
+  const text = post.content || '(no text)';
+
+  switch (getPostKind(post)) {
+    case 'repost':
+      return `${author} reposted${post.reposted ? ` @${post.reposted.account.username}` : ''}: ${text}`;
+    case 'reply': {
+      const parent = post.inReplyTo?.post?.account.username ?? post.inReplyTo?.username;
+      return `${author} replying${parent ? ` to @${parent}` : ''}: ${text}`;
+    }
+    case 'quote':
+      return post.quoted
+        ? `${author}: ${text}\n\nQuoting @${post.quoted.account.username}: ${post.quoted.content || '(no text)'}`
+        : `${author}: ${text}`;
+    default:
+      return `${author}: ${text}`;
+  }
+}
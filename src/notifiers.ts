@@ -0,0 +1,72 @@
+import { AppConfig, RetryPolicy } from './config';
+import { Notifier, notifyWithRetry } from './notifier';
+import { WebhookNotifier } from './webhookNotifier';
+import { SlackNotifier } from './slackNotifier';
+import { TelegramNotifier } from './telegramNotifier';
+import { NtfyNotifier } from './ntfyNotifier';
+import { TruthSocialPost } from './types';
+import { UrgencyClassifier } from './urgencyTiers';
+import { Metrics } from './metrics';
+
+export interface ConfiguredNotifier {
+  notifier: Notifier;
+  policy: RetryPolicy;
+}
+
+// Every notifier with its settings filled in, paired with its retry policy. Only the configured ones are kept.
+export function createNotifiers(settings: AppConfig['notifiers']): ConfiguredNotifier[] {
+  const all: ConfiguredNotifier[] = [
+    { notifier: new WebhookNotifier(settings.webhook), policy: settings.webhook.retry },
+    { notifier: new SlackNotifier(settings.slack), policy: settings.slack.retry },
+    { notifier: new TelegramNotifier(settings.telegram), policy: settings.telegram.retry },
+    { notifier: new NtfyNotifier(settings.ntfy), policy: settings.ntfy.retry }
+  ];
+  return all.filter(({ notifier }) => notifier.isConfigured());
+}
+
+// Fans announced posts out to every configured non-Discord notifier
+export class NotifierHub {
+  // Posts go out one at a time so every service sees them in order
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private notifiers: ConfiguredNotifier[],
+    private urgencyClassifier: UrgencyClassifier,
+    private metrics: Metrics
+  ) {
+    if (this.notifiers.length > 0) {
+      console.log(`Also sending posts to ${this.notifiers.map(({ notifier }) => notifier.name).join(', ')}`);
+    }
+  }
+
+  // Resolves once everything queued so far has been sent or given up on
+  idle(): Promise<void> {
+    return this.queue;
+  }
+
+  // Queue posts (oldest first) without waiting, retries can take minutes and shouldn't hold up polling
+  enqueue(posts: TruthSocialPost[]): void {
+    if (this.notifiers.length === 0 || posts.length === 0) return;
+
+    this.queue = this.queue.then(async () => {
+      for (const post of posts) {
+        await this.notify(post);
+      }
+    });
+  }
+
+  private async notify(post: TruthSocialPost): Promise<void> {
+    const tier = this.urgencyClassifier.classify(post);
+
+    // A failing service never blocks the others
+    await Promise.all(this.notifiers.map(async ({ notifier, policy }) => {
+      try {
+        await notifyWithRetry(notifier, policy, post, tier);
+        this.metrics.sends.inc({ destination: notifier.name.toLowerCase(), result: 'success' });
+      } catch (error: any) {
+        this.metrics.sends.inc({ destination: notifier.name.toLowerCase(), result: 'failure' });
+        console.error(`Giving up on sending post ${post.id} to ${notifier.name}: ${error?.message}`);
+      }
+    }));
+  }
+}
@@ -0,0 +1,38 @@
+import axios from 'axios';
+import { AppConfig } from './config';
+import { Notifier, formatPostText } from './notifier';
+import { TruthSocialPost } from './types';
+import { UrgencyTier } from './urgencyTiers';
+
+// Publishes to an ntfy topic URL such as https://ntfy.sh/my-topic, see https://docs.ntfy.sh/publish/
+export class NtfyNotifier implements Notifier {
+  readonly name = 'ntfy';
+  private topicUrl: string;
+  private token: string;
+
+  constructor(settings: AppConfig['notifiers']['ntfy']) {
+    this.topicUrl = settings.url;
+    this.token = settings.token;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.topicUrl);
+  }
+
+  async notify(post: TruthSocialPost, tier: UrgencyTier): Promise<void> {
+    // Header values must be plain ASCII, so the emoji go in Tags instead of the title
+    const title = tier === 'breaking' ? 'BREAKING Truth Social Post' : 'New Truth Social Post';
+
+    await axios.post(this.topicUrl, formatPostText(post), {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        Title: title,
+        Priority: tier === 'breaking' ? 'urgent' : 'default',
+        Tags: tier === 'breaking' ? 'rotating_light' : 'loudspeaker',
+        Click: post.url,
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {})
+      },
+      timeout: 10000
+    });
+  }
+}
@@ -0,0 +1,160 @@
+import { ConfigService } from './config';
+import { StateStore, DeliveryTarget, OutboxItem } from './stateStore';
+import { DiscordSender } from './discordClient';
+import { PostChangeTracker } from './postChangeTracker';
+import { MediaMirror } from './mediaMirror';
+import { Metrics } from './metrics';
+import { TruthSocialPost } from './types';
+
+// Discord API error for a channel that was deleted, retrying can never succeed
+const UNKNOWN_CHANNEL_ERROR = 10003;
+
+// Sends per run, the rest go out on the next one
+const MAX_DELIVERIES_PER_RUN = 50;
+
+// Delivered items are only kept long enough to stop a re-fetched post from being queued twice
+const DELIVERED_RETENTION_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export class Outbox {
+  private readonly maxDelayMs = 60 * 60 * 1000; // 1 hour
+  private processing = false;
+  private lastPrunedAt = 0;
+
+  constructor(
+    private config: ConfigService,
+    private db: StateStore,
+    private discord: DiscordSender,
+    private postChangeTracker: PostChangeTracker,
+    private mediaMirror: MediaMirror,
+    private metrics: Metrics
+  ) {}
+
+  private get maxAttempts(): number {
+    return this.config.current.outbox.maxAttempts;
+  }
+
+  private get baseDelayMs(): number {
+    return this.config.current.outbox.retryDelaySeconds * 1000;
+  }
+
+  // Persist the post for each channel before anything is sent, throws if it couldn't be stored.
+  // Media is mirrored first so every channel (and every retry) uploads the same copies.
+  async enqueue(post: TruthSocialPost, targets: DeliveryTarget[]): Promise<void> {
+    if (targets.length === 0) return;
+    await this.db.enqueueOutboxItems(await this.mediaMirror.mirror(post), targets);
+  }
+
+  // Deliver everything that is due. Overlapping calls are skipped, the running one picks up the work.
+  async processDue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const items = await this.db.getPendingOutboxItems();
+
+      // Keep each channel's alerts in the order the posts were made
+      items.sort((a, b) => new Date(a.post.createdAt).getTime() - new Date(b.post.createdAt).getTime());
+
+      // A channel stops at its first item that fails or is still waiting out a retry, so its later
+      // posts never jump ahead, on this run or the next ones
+      const heldChannels = new Set<string>();
+      const now = new Date().toISOString();
+      let deliveries = 0;
+
+      for (const item of items) {
+        if (deliveries >= MAX_DELIVERIES_PER_RUN) break;
+        if (heldChannels.has(item.channelId)) continue;
+        if (item.nextAttemptAt > now) {
+          heldChannels.add(item.channelId);
+          continue;
+        }
+
+        deliveries++;
+        const delivered = await this.deliver(item);
+        if (!delivered) {
+          heldChannels.add(item.channelId);
+        }
+      }
+    } catch (error) {
+      console.error('Error processing outbox:', error);
+    } finally {
+      this.processing = false;
+    }
+
+    await this.prune();
+  }
+
+  // Every item keeps a full copy of its post, so old ones are cleared out about once an hour
+  private async prune(): Promise<void> {
+    const now = Date.now();
+    if (!this.db.isInitialized || now - this.lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    this.lastPrunedAt = now;
+
+    try {
+      const deadRetentionMs = this.config.current.outbox.deadRetentionDays * 24 * 60 * 60 * 1000;
+      const removed = await this.db.pruneOutboxItems(new Date(now - DELIVERED_RETENTION_MS), new Date(now - deadRetentionMs));
+      if (removed > 0) {
+        console.log(`Removed ${removed} delivered and dead outbox items`);
+      }
+    } catch (error) {
+      console.error('Error pruning outbox:', error);
+    }
+  }
+
+  private async deliver(item: OutboxItem): Promise<boolean> {
+    try {
+      const messageId = await this.discord.sendTruthSocialUpdate(item.post, item.channelId, item.mentionRoleId);
+      await this.db.updateOutboxItem({
+        ...item,
+        status: 'delivered',
+        attempts: item.attempts + 1,
+        deliveredAt: new Date().toISOString(),
+        messageId,
+        lastError: undefined
+      });
+      this.metrics.sends.inc({ destination: 'discord', result: 'success' });
+
+      // Not fatal to the delivery, the post just won't be watched for edits in this channel
+      try {
+        await this.postChangeTracker.recordDelivery(item.post, item.channelId, messageId);
+      } catch (error) {
+        console.error(`Error recording announced message for post ${item.post.id}:`, error);
+      }
+      return true;
+    } catch (error: any) {
+      this.metrics.sends.inc({ destination: 'discord', result: 'failure' });
+      const attempts = item.attempts + 1;
+      const permanent = error?.code === UNKNOWN_CHANNEL_ERROR;
+      const dead = permanent || attempts >= this.maxAttempts;
+
+      // Exponential backoff: 30s, 1m, 2m, 4m... capped at an hour
+      const delay = Math.min(this.baseDelayMs * 2 ** (attempts - 1), this.maxDelayMs);
+
+      if (dead) {
+        console.error(
+          `Giving up on post ${item.post.id} for channel ${item.channelId} after ${attempts} attempts, ` +
+          `moved to dead letters: ${error?.message}`
+        );
+      } else {
+        console.warn(
+          `Delivery of post ${item.post.id} to channel ${item.channelId} failed (attempt ${attempts}), ` +
+          `retrying in ${Math.round(delay / 1000)}s: ${error?.message}`
+        );
+      }
+
+      try {
+        await this.db.updateOutboxItem({
+          ...item,
+          status: dead ? 'dead' : 'pending',
+          attempts,
+          nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+          lastError: String(error?.message ?? error)
+        });
+      } catch (updateError) {
+        console.error(`Error updating outbox item ${item._id}:`, updateError);
+      }
+      return false;
+    }
+  }
+}
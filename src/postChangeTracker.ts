@@ -0,0 +1,198 @@
+import { createHash } from 'crypto';
+import { ConfigService } from './config';
+import { AnnouncedPost, StateStore } from './stateStore';
+import { DiscordSender } from './discordClient';
+import { keepMirroredMedia } from './mediaMirror';
+import { comparePostIds } from './postSource';
+import { diffWords } from './textDiff';
+import { TruthSocialPost } from './types';
+
+// Bump when the hashed fields or the way content is derived from the API change. Snapshots hashed
+// the old way are quietly re-baselined instead of every recent post showing up as edited.
+const HASH_VERSION = 'v2';
+
+// Hash of everything an edit can change, so re-fetching the same post is a cheap comparison
+function hashPost(post: TruthSocialPost): string {
+  const media = (post.media_attachments ?? []).map(attachment => attachment.url);
+  const digest = createHash('sha256').update(JSON.stringify([post.content, media])).digest('hex');
+  return `${HASH_VERSION}:${digest}`;
+}
+
+// Snapshots from before hashes were versioned have a bare hex digest
+function hasCurrentHashVersion(snapshot: AnnouncedPost): boolean {
+  return snapshot.contentHash.startsWith(`${HASH_VERSION}:`);
+}
+
+// Ignore velocity for the first few minutes, a handful of early likes would look like a huge rate
+const MIN_VELOCITY_AGE_HOURS = 10 / 60;
+
+// Watches announced posts for edits, deletions and engagement, and updates their Discord messages
+export class PostChangeTracker {
+  constructor(private config: ConfigService, private db: StateStore, private discord: DiscordSender) {}
+
+  private get windowHours(): number {
+    return this.config.current.tracking.editTrackingHours;
+  }
+
+  // Editing every message on every poll would hit Discord rate limits, so count refreshes are spaced out
+  private get engagementUpdateMs(): number {
+    return this.config.current.tracking.engagementUpdateMinutes * 60 * 1000;
+  }
+
+  // 0 disables either trending condition
+  private get trendingFavourites(): number {
+    return this.config.current.tracking.trendingFavouritesThreshold;
+  }
+
+  private get trendingVelocity(): number {
+    return this.config.current.tracking.trendingVelocityPerHour;
+  }
+
+  async recordDelivery(post: TruthSocialPost, channelId: string, messageId: string): Promise<void> {
+    await this.db.recordAnnouncedMessage(post, hashPost(post), channelId, messageId);
+  }
+
+  // Compare freshly fetched posts (newest first) against the snapshots of what we announced
+  async checkForChanges(handle: string, posts: TruthSocialPost[]): Promise<void> {
+    if (posts.length === 0) return;
+
+    const since = new Date(Date.now() - this.windowHours * 60 * 60 * 1000);
+    const snapshots = await this.db.getActiveAnnouncedPosts(handle, since);
+    if (snapshots.length === 0) return;
+
+    const fetchedById = new Map(posts.map(post => [post.id, post]));
+    const oldestFetchedId = posts[posts.length - 1].id;
+
+    for (const snapshot of snapshots) {
+      try {
+        const fetched = fetchedById.get(snapshot.postId);
+        const current = fetched && keepMirroredMedia(snapshot.post, fetched);
+
+        if (!current) {
+          // Only a post inside the fetched range can be missing, older ones simply weren't on the page
+          if (comparePostIds(snapshot.postId, oldestFetchedId) > 0) {
+            await this.handleDeleted(snapshot);
+          }
+        } else if (!hasCurrentHashVersion(snapshot)) {
+          await this.rebaseline(snapshot, current);
+        } else if (hashPost(current) !== snapshot.contentHash) {
+          await this.handleEdited(snapshot, current);
+        } else {
+          await this.handleEngagement(snapshot, current);
+        }
+      } catch (error) {
+        console.error(`Error checking post ${snapshot.postId} for changes:`, error);
+      }
+    }
+  }
+
+  // Take the post as it is now as the new reference, without telling anyone
+  private async rebaseline(snapshot: AnnouncedPost, current: TruthSocialPost): Promise<void> {
+    console.log(`Re-baselining the snapshot of post ${snapshot.postId} for hash ${HASH_VERSION}`);
+    await this.db.updateAnnouncedPost({ ...snapshot, post: current, contentHash: hashPost(current) });
+  }
+
+  private async handleEdited(snapshot: AnnouncedPost, current: TruthSocialPost): Promise<void> {
+    console.log(`Truth Social post ${snapshot.postId} from @${snapshot.handle} was edited`);
+
+    const previous = snapshot.post;
+    const diff = previous.content === current.content
+      ? 'The media attachments changed.'
+      : diffWords(previous.content, current.content);
+
+    for (const { channelId, messageId } of snapshot.messages) {
+      try {
+        await this.discord.updateTruthSocialMessage(current, 'edited', channelId, messageId);
+        await this.discord.sendEditDiff(current, diff, channelId, messageId);
+      } catch (error) {
+        console.error(`Error updating edited post ${snapshot.postId} in channel ${channelId}:`, error);
+      }
+    }
+
+    await this.db.updateAnnouncedPost({
+      ...snapshot,
+      post: current,
+      contentHash: hashPost(current),
+      editCount: snapshot.editCount + 1,
+      editedAt: new Date().toISOString()
+    });
+  }
+
+  // Refresh the live counts on the announced messages and send a one-off alert when a post takes off
+  private async handleEngagement(snapshot: AnnouncedPost, current: TruthSocialPost): Promise<void> {
+    const previous = snapshot.post;
+    const countsChanged = previous.repliesCount !== current.repliesCount ||
+      previous.reblogsCount !== current.reblogsCount ||
+      previous.favouritesCount !== current.favouritesCount;
+
+    const lastUpdate = new Date(snapshot.engagementUpdatedAt ?? 0).getTime();
+    const refreshDue = countsChanged && Date.now() - lastUpdate >= this.engagementUpdateMs;
+    const trendingReason = snapshot.trendingAlertedAt ? null : this.getTrendingReason(current);
+
+    if (!refreshDue && !trendingReason) return;
+
+    const updated: AnnouncedPost = { ...snapshot, post: current };
+
+    if (refreshDue) {
+      const state = snapshot.editCount > 0 ? 'edited' : 'new';
+      for (const { channelId, messageId } of snapshot.messages) {
+        try {
+          await this.discord.updateTruthSocialMessage(current, state, channelId, messageId);
+        } catch (error) {
+          console.error(`Error refreshing engagement for post ${snapshot.postId} in channel ${channelId}:`, error);
+        }
+      }
+      updated.engagementUpdatedAt = new Date().toISOString();
+    }
+
+    if (trendingReason) {
+      console.log(`Truth Social post ${snapshot.postId} from @${snapshot.handle} is trending: ${trendingReason}`);
+      for (const { channelId, messageId } of snapshot.messages) {
+        try {
+          await this.discord.sendTrendingAlert(current, trendingReason, channelId, messageId);
+        } catch (error) {
+          console.error(`Error sending trending alert for post ${snapshot.postId} to channel ${channelId}:`, error);
+        }
+      }
+      updated.trendingAlertedAt = new Date().toISOString();
+    }
+
+    await this.db.updateAnnouncedPost(updated);
+  }
+
+  // Why the post counts as trending, or null if it doesn't (yet)
+  private getTrendingReason(post: TruthSocialPost): string | null {
+    if (this.trendingFavourites > 0 && post.favouritesCount >= this.trendingFavourites) {
+      return `passed ${this.trendingFavourites.toLocaleString('en-US')} likes`;
+    }
+
+    const ageHours = (Date.now() - new Date(post.createdAt).getTime()) / (60 * 60 * 1000);
+    if (this.trendingVelocity > 0 && ageHours >= MIN_VELOCITY_AGE_HOURS) {
+      const perHour = Math.round(post.favouritesCount / ageHours);
+      if (perHour >= this.trendingVelocity) {
+        return `gaining ${perHour.toLocaleString('en-US')} likes per hour`;
+      }
+    }
+
+    return null;
+  }
+
+  private async handleDeleted(snapshot: AnnouncedPost): Promise<void> {
+    console.log(`Truth Social post ${snapshot.postId} from @${snapshot.handle} was deleted`);
+
+    // The archived copy keeps the original text visible after the post is gone
+    for (const { channelId, messageId } of snapshot.messages) {
+      try {
+        await this.discord.updateTruthSocialMessage(snapshot.post, 'deleted', channelId, messageId);
+      } catch (error) {
+        console.error(`Error marking post ${snapshot.postId} as deleted in channel ${channelId}:`, error);
+      }
+    }
+
+    await this.db.updateAnnouncedPost({
+      ...snapshot,
+      status: 'deleted',
+      deletedAt: new Date().toISOString()
+    });
+  }
+}
@@ -0,0 +1,126 @@
+import { escapeMarkdown } from 'discord.js';
+
+// Conversion of Truth Social post HTML into plain text (filters, search, notifiers) and Discord markdown (embeds)
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”'
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const codePoint = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+// Escapes everything Discord would read as formatting, including headings, lists and [masked](links)
+export function escapeDiscordMarkdown(text: string): string {
+  return escapeMarkdown(text, { heading: true, bulletedList: true, numberedList: true })
+    .replace(/[[\]]/g, '\\$&')
+    // Keep "<@123>" or "<t:...>" in a post from rendering as a mention or timestamp
+    .replace(/</g, '\\<');
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? decodeHtmlEntities(match[1] ?? match[2]) : undefined;
+}
+
+// Link text that just repeats its target, like Mastodon's shortened "example.com/long…" links
+function isUrlText(text: string, href: string): boolean {
+  const strip = (url: string) => url.replace(/^https?:\/\//, '').replace(/\/$/, '').replace(/…$/, '');
+  const shown = strip(text);
+  return shown.length > 0 && strip(href).startsWith(shown);
+}
+
+function renderLink(text: string, href: string | undefined, markdown: boolean): string {
+  const label = text.trim();
+  if (!href || !/^https?:\/\//i.test(href)) {
+    return markdown ? escapeDiscordMarkdown(text) : text;
+  }
+  if (!label || isUrlText(label, href)) {
+    // Bare URLs link themselves in Discord
+    return href;
+  }
+  if (markdown) {
+    return `[${escapeDiscordMarkdown(label)}](${href.replace(/\)/g, '%29')})`;
+  }
+  // Mentions and hashtags read fine on their own, other labels keep their target
+  return /^[@#]/.test(label) ? label : `${label} (${href})`;
+}
+
+function convert(html: string, markdown: boolean): string {
+  let output = '';
+  // Text of the <a> being read, links are rendered once they close
+  let link: { href?: string; text: string } | null = null;
+
+  for (const [token] of html.matchAll(/<[^>]*>|[^<]+/g)) {
+    if (!token.startsWith('<')) {
+      const text = decodeHtmlEntities(token);
+      if (link) {
+        link.text += text;
+      } else {
+        output += markdown ? escapeDiscordMarkdown(text) : text;
+      }
+      continue;
+    }
+
+    const tag = token.match(/^<\s*(\/?)\s*([a-z0-9]+)/i);
+    if (!tag) continue;
+    const closing = tag[1] === '/';
+    const name = tag[2].toLowerCase();
+
+    if (name === 'a') {
+      if (!closing) {
+        link = { href: getAttribute(token, 'href'), text: '' };
+      } else if (link) {
+        output += renderLink(link.text, link.href, markdown);
+        link = null;
+      }
+    } else if (name === 'br') {
+      output += '\n';
+    } else if (name === 'p' && closing) {
+      output += '\n\n';
+    } else if (name === 'li' && !closing) {
+      output += markdown ? '- ' : '• ';
+    } else if (name === 'li' || name === 'ul' || name === 'ol') {
+      output += '\n';
+    }
+  }
+
+  // An <a> that never closed still shows its text
+  if (link) {
+    output += markdown ? escapeDiscordMarkdown(link.text) : link.text;
+  }
+
+  return output
+    .replace(/\u00a0/g, ' ')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Paragraphs and line breaks are kept, links show their text (or their URL when the text is just the URL)
+export function htmlToPlainText(html: string): string {
+  return convert(html, false);
+}
+
+// Like htmlToPlainText, but links become Discord markdown links and the text is escaped
+export function htmlToDiscordMarkdown(html: string): string {
+  return convert(html, true);
+}
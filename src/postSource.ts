@@ -0,0 +1,248 @@
+import { htmlToPlainText } from './postHtml';
+import { PostKind, TruthSocialPost } from './types';
+
+// Interfaces for Truth Social API responses. ScrapeCreators passes through the
+// Mastodon status format, so both providers share them.
+export interface TruthSocialAccount {
+  id: string;
+  username: string;
+  display_name: string;
+  verified: boolean;
+  url: string;
+  avatar?: string;
+  avatar_static?: string;
+}
+
+export interface TruthSocialApiPost {
+  id: string;
+  // Plain text version, only ScrapeCreators provides it
+  text?: string;
+  created_at: string;
+  uri: string;
+  url: string;
+  content: string;
+  account: TruthSocialAccount;
+  media_attachments: {
+    type: string;
+    url: string;
+    preview_url?: string;
+    meta?: {
+      original?: {
+        width: number;
+        height: number;
+        aspect: number;
+        duration?: number;
+      };
+      small?: {
+        width: number;
+        height: number;
+        aspect: number;
+        url: string;
+      };
+    };
+  }[];
+  card?: {
+    url: string;
+    title: string;
+    description?: string;
+    image?: string | null;
+    provider_name?: string;
+  } | null;
+  reblog?: TruthSocialApiPost | null;
+  // Truth Social quote posts carry the quoted status, older responses only its ID
+  quote?: TruthSocialApiPost | null;
+  quote_id?: string | null;
+  in_reply_to_id?: string | null;
+  in_reply_to_account_id?: string | null;
+  // Truth Social sometimes includes the parent status of a reply
+  in_reply_to?: TruthSocialApiPost | null;
+  mentions?: { id: string; username: string; acct?: string; url?: string }[];
+  replies_count: number;
+  reblogs_count: number;
+  favourites_count: number;
+}
+
+// One page of an account's posts, newest first
+export interface PostPage {
+  posts: TruthSocialPost[];
+  // Pass back as maxId to fetch the next (older) page, undefined on the last page
+  nextMaxId?: string;
+}
+
+// A provider of Truth Social posts. Post IDs are the same across providers, so cursors carry over when switching.
+export interface PostSource {
+  readonly name: string;
+  // False when required settings such as an API key are missing
+  isConfigured(): boolean;
+  fetchPosts(handle: string, maxId?: string): Promise<PostPage>;
+}
+
+// The API answered, but reported that the request failed, e.g. an invalid key or no credits left
+export class SourceRejectedError extends Error {
+  constructor(readonly source: string, readonly apiMessage: string) {
+    super(`${source} rejected the request: ${apiMessage}`);
+    this.name = 'SourceRejectedError';
+  }
+}
+
+// Delay asked for by a 429 or 503 response, from Retry-After in seconds or as an HTTP date
+export function getRetryAfterMs(error: any): number | undefined {
+  const header = error?.response?.headers?.['retry-after'];
+  if (header) {
+    const seconds = Number(header);
+    const ms = isNaN(seconds) ? new Date(header).getTime() - Date.now() : seconds * 1000;
+    if (!isNaN(ms)) return Math.max(0, ms);
+  }
+  return undefined;
+}
+
+// Post IDs are numeric snowflakes, compare them as numbers so IDs of different lengths order correctly
+export function comparePostIds(a: string, b: string): number {
+  if (/^\d+$/.test(a) && /^\d+$/.test(b)) {
+    const diff = BigInt(a) - BigInt(b);
+    return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+  }
+  return a.localeCompare(b);
+}
+
+// Quote posts end with an inline "RT: <link>" to the quoted post, which the nested post already shows
+const QUOTE_INLINE_HTML = /<span class="quote-inline">[\s\S]*?<\/span>/g;
+const QUOTE_INLINE_TEXT = /\s*RT:\s*https?:\/\/\S+\s*$/;
+
+function mapPostFields(post: TruthSocialApiPost): TruthSocialPost {
+  return {
+    id: post.id,
+    content: post.text || htmlToPlainText(post.content),
+    contentHtml: post.content || undefined,
+    createdAt: post.created_at,
+    url: post.url,
+    account: {
+      id: post.account.id,
+      username: post.account.username,
+      displayName: post.account.display_name || post.account.username,
+      url: post.account.url || `https://truthsocial.com/@${post.account.username}`,
+      avatar: post.account.avatar || post.account.avatar_static || ''
+    },
+    kind: 'original',
+    isRepost: false,
+    repliesCount: post.replies_count ?? 0,
+    reblogsCount: post.reblogs_count ?? 0,
+    favouritesCount: post.favourites_count ?? 0,
+    media_attachments: (post.media_attachments ?? []).map(media => ({
+      type: media.type,
+      url: media.url,
+      preview_url: media.preview_url || '',  // Convert null/undefined to empty string to match type
+      meta: media.meta?.original ? {
+        original: {
+          duration: media.meta.original.duration,
+          width: media.meta.original.width,
+          height: media.meta.original.height
+        }
+      } : undefined
+    })),
+    card: post.card?.url ? {
+      url: post.card.url,
+      title: post.card.title || post.card.url,
+      description: post.card.description || undefined,
+      image: post.card.image || undefined,
+      providerName: post.card.provider_name || undefined
+    } : null
+  };
+}
+
+// Nested posts are mapped one level deep, a quote of a quote only shows the first
+export function mapApiPost(post: TruthSocialApiPost): TruthSocialPost {
+  const mapped = mapPostFields(post);
+
+  // The wrapper of a ReTruth is empty, the text and media live on the reposted post
+  if (post.reblog) {
+    const reposted = mapPostFields(post.reblog);
+    return {
+      ...mapped,
+      kind: 'repost',
+      isRepost: true,
+      content: reposted.content,
+      contentHtml: reposted.contentHtml,
+      media_attachments: reposted.media_attachments,
+      card: reposted.card,
+      reposted
+    };
+  }
+
+  if (post.in_reply_to_id) {
+    const replyToSelf = post.in_reply_to_account_id === post.account.id;
+    const username = replyToSelf
+      ? post.account.username
+      : post.mentions?.find(mention => mention.id === post.in_reply_to_account_id)?.username ?? post.in_reply_to?.account.username;
+    mapped.kind = 'reply';
+    mapped.inReplyTo = {
+      id: post.in_reply_to_id,
+      username,
+      url: post.in_reply_to?.url ?? (username ? `https://truthsocial.com/@${username}/${post.in_reply_to_id}` : undefined),
+      post: post.in_reply_to ? mapPostFields(post.in_reply_to) : undefined
+    };
+  }
+
+  if (post.quote || post.quote_id) {
+    mapped.kind = 'quote';
+    mapped.quoted = post.quote ? mapPostFields(post.quote) : undefined;
+    mapped.contentHtml = post.content ? post.content.replace(QUOTE_INLINE_HTML, '') : undefined;
+    mapped.content = post.text
+      ? post.text.replace(QUOTE_INLINE_TEXT, '')
+      : htmlToPlainText(mapped.contentHtml ?? '');
+  }
+
+  return mapped;
+}
+
+// Posts stored before kinds were detected only know whether they were a ReTruth
+export function getPostKind(post: TruthSocialPost): PostKind {
+  return post.kind ?? (post.isRepost ? 'repost' : 'original');
+}
+
+// Detailed logging of media attachments for debugging
+export function logMediaDebugInfo(post: TruthSocialApiPost): void {
+  if (!(post.media_attachments?.length > 0)) return;
+
+  console.log('=== Media Attachment Debug Info ===');
+  post.media_attachments.forEach((media, index) => {
+    console.log(`Media ${index + 1}:`);
+    console.log('Type:', media.type);
+    console.log('URL:', media.url);
+    console.log('Preview URL:', media.preview_url);
+    console.log('Meta:', JSON.stringify(media.meta, null, 2));
+    console.log('Full attachment:', JSON.stringify(media, null, 2));
+    console.log('------------------------');
+  });
+}
+
+// Tries each source in order, moving on to the next one when a source errors
+export class FailoverPostSource implements PostSource {
+  readonly name: string;
+
+  constructor(private sources: PostSource[]) {
+    this.name = sources.map(source => source.name).join(' -> ');
+  }
+
+  isConfigured(): boolean {
+    return this.sources.some(source => source.isConfigured());
+  }
+
+  async fetchPosts(handle: string, maxId?: string): Promise<PostPage> {
+    const available = this.sources.filter(source => source.isConfigured());
+    let lastError: unknown;
+
+    for (const [index, source] of available.entries()) {
+      try {
+        return await source.fetchPosts(handle, maxId);
+      } catch (error: any) {
+        lastError = error;
+        if (index < available.length - 1) {
+          console.warn(`${source.name} failed for @${handle} (${error.message}), failing over to ${available[index + 1].name}`);
+        }
+      }
+    }
+
+    throw lastError;
+  }
+}
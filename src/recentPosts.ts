@@ -0,0 +1,20 @@
+import { TruthSocialPost } from './types';
+
+// In-memory buffer of the latest fetched posts, used to try out filter rules
+export class RecentPosts {
+  private posts: TruthSocialPost[] = [];
+  private readonly maxPosts = 50;
+
+  add(posts: TruthSocialPost[]): void {
+    const known = new Set(posts.map(post => post.id));
+    this.posts = [...posts, ...this.posts.filter(post => !known.has(post.id))]
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(0, this.maxPosts);
+  }
+
+  // Newest first
+  get(limit: number = this.maxPosts): TruthSocialPost[] {
+    return this.posts.slice(0, limit);
+  }
+}
+
@@ -0,0 +1,132 @@
+import axios from 'axios';
+import { ConfigService } from './config';
+import { StateStore } from './stateStore';
+import { DiscordSender } from './discordClient';
+import { RedditPost } from './types';
+
+// Subset of the public listing JSON, see https://www.reddit.com/dev/api#GET_new
+interface RedditListingResponse {
+  data: {
+    children: {
+      data: {
+        id: string;
+        title: string;
+        permalink: string;
+        url: string;
+        created_utc: number;
+        author: string;
+        selftext?: string;
+        is_self: boolean;
+        subreddit: string;
+        stickied?: boolean;
+      };
+    }[];
+  };
+}
+
+// Reddit post IDs are base36 and increase over time
+function compareRedditIds(a: string, b: string): number {
+  return parseInt(a, 36) - parseInt(b, 36);
+}
+
+export class RedditService {
+  private subreddits: string[];
+  private interval: number;
+  private errorCount = 0;
+  private pausedUntil = 0;
+  private readonly maxBackoff = 60 * 60 * 1000; // 1 hour
+  private readonly userAgent = 'trump-tracker-bot/1.0 (Discord alert bot)';
+
+  constructor(config: ConfigService, private db: StateStore, private discord: DiscordSender) {
+    // Empty disables Reddit tracking
+    this.subreddits = config.current.reddit.subreddits;
+    this.interval = config.current.reddit.pollIntervalMinutes;
+  }
+
+  get enabled(): boolean {
+    return this.subreddits.length > 0;
+  }
+
+  get pollIntervalMinutes(): number {
+    return this.interval;
+  }
+
+  async fetchLatestPosts(): Promise<void> {
+    // Back off after errors so a Reddit outage or rate limit doesn't get hammered every interval
+    if (Date.now() < this.pausedUntil) {
+      return;
+    }
+
+    // Without the cursors every subreddit would look new and its unseen posts would be skipped
+    if (!this.db.isInitialized) {
+      console.log('State store not available, skipping Reddit poll');
+      return;
+    }
+
+    for (const subreddit of this.subreddits) {
+      try {
+        await this.fetchSubredditPosts(subreddit);
+        this.errorCount = 0;
+      } catch (error: any) {
+        this.errorCount++;
+        const backoff = Math.min(this.interval * 60 * 1000 * 2 ** (this.errorCount - 1), this.maxBackoff);
+        this.pausedUntil = Date.now() + backoff;
+        console.error(
+          `Reddit API error for r/${subreddit} (attempt ${this.errorCount}): ${error.message}. ` +
+          `Pausing Reddit polling for ${Math.round(backoff / 60000)} minutes.`
+        );
+        return;
+      }
+    }
+  }
+
+  private async fetchSubredditPosts(subreddit: string): Promise<void> {
+    const response = await axios.get<RedditListingResponse>(`https://www.reddit.com/r/${subreddit}/new.json`, {
+      params: { limit: 25, raw_json: 1 },
+      headers: { 'User-Agent': this.userAgent }
+    });
+
+    const posts: RedditPost[] = (response.data?.data?.children ?? [])
+      .map(child => child.data)
+      .filter(post => !post.stickied)
+      .map(post => ({
+        id: post.id,
+        title: post.title,
+        url: `https://www.reddit.com${post.permalink}`,
+        created: post.created_utc,
+        author: post.author,
+        // Link posts have no body, show the link itself so image posts get a preview
+        content: post.is_self ? post.selftext || '' : post.url,
+        subreddit: post.subreddit
+      }))
+      .sort((a, b) => compareRedditIds(b.id, a.id));
+
+    if (posts.length === 0) return;
+
+    const lastSeenPostId = await this.db.getLastSeenRedditPost(subreddit);
+
+    // On the first run only remember where we are, announcing the whole listing would flood channels
+    if (!lastSeenPostId) {
+      console.log(`Initializing Reddit cursor for r/${subreddit} at ${posts[0].id}`);
+      await this.db.updateLastSeenRedditPost(subreddit, posts[0].id);
+      return;
+    }
+
+    const newPosts = posts.filter(post => compareRedditIds(post.id, lastSeenPostId) > 0);
+    if (newPosts.length === 0) return;
+
+    console.log(`Found ${newPosts.length} new Reddit posts in r/${subreddit} to process`);
+
+    // Send from oldest to newest, only moving the cursor past a post once Discord has it.
+    // A failed send stops here and the rest are picked up again on the next poll.
+    for (const post of newPosts.reverse()) {
+      try {
+        await this.discord.sendRedditUpdate(post);
+      } catch (error: any) {
+        console.error(`Error sending Reddit post ${post.id} from r/${subreddit}, retrying on the next poll: ${error.message}`);
+        return;
+      }
+      await this.db.updateLastSeenRedditPost(subreddit, post.id);
+    }
+  }
+}
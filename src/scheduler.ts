@@ -1,50 +1,76 @@
 import cron from 'node-cron';
-import dotenv from 'dotenv';
-import truthSocialService from './truthSocialService';
+import { AdaptivePoller } from './adaptivePoller';
+import { Outbox } from './outbox';
+import { RedditService } from './redditService';
+import { DigestService } from './digestService';
+import { StateStore } from './stateStore';
+import { IncidentTracker } from './incidents';
 
-dotenv.config();
+// How long the state store gets to come up before it counts as an incident
+const DATABASE_GRACE_MS = 2 * 60 * 1000;
 
-class Scheduler {
-  private interval: number;
+// Give the Discord client a moment to log in before the first poll
+const INITIAL_POLL_DELAY_MS = 5000;
 
-  constructor() {
-    this.interval = parseInt(process.env.POLL_INTERVAL_MINUTES || '5', 10);
-    if (isNaN(this.interval) || this.interval < 1) {
-      console.warn('Invalid POLL_INTERVAL_MINUTES, defaulting to 5 minutes');
-      this.interval = 5;
-    }
-  }
+export class Scheduler {
+  private readonly startedAt = Date.now();
+
+  constructor(
+    private adaptivePoller: AdaptivePoller,
+    private outbox: Outbox,
+    private redditService: RedditService,
+    private digestService: DigestService,
+    private db: StateStore,
+    private incidents: IncidentTracker
+  ) {}
 
   start(): void {
-    console.log(`Starting scheduler with ${this.interval} minute interval`);
-    
-    // Schedule Truth Social polling
-    const cronExpression = `*/${this.interval} * * * *`; // Run every X minutes
-    cron.schedule(cronExpression, async () => {
-      console.log('Polling Truth Social for new posts...');
-      await truthSocialService.fetchLatestPosts();
+    console.log('Starting scheduler');
+
+    // Truth Social polling picks its own interval after every poll, the first one applies STARTUP_MODE
+    this.adaptivePoller.start(INITIAL_POLL_DELAY_MS);
+
+    // Reddit runs on its own interval and backs off independently of Truth Social
+    if (this.redditService.enabled) {
+      const redditInterval = this.redditService.pollIntervalMinutes;
+      console.log(`Starting Reddit polling with ${redditInterval} minute interval`);
+      cron.schedule(`*/${redditInterval} * * * *`, async () => {
+        console.log('Polling Reddit for new posts...');
+        await this.redditService.fetchLatestPosts();
+      });
+    }
+
+    // Digests use their own cron expressions, evaluated in the digest timezone
+    for (const [schedule, expression] of [['daily', this.digestService.dailyCron], ['weekly', this.digestService.weeklyCron]] as const) {
+      if (!cron.validate(expression)) {
+        console.error(`Invalid ${schedule} digest cron expression "${expression}", ${schedule} digests are disabled`);
+        continue;
+      }
+      cron.schedule(expression, async () => {
+        await this.digestService.sendDigests(schedule);
+      }, { timezone: this.digestService.timeZone });
+    }
+
+    // Retry queued deliveries every 30 seconds, the outbox applies its own backoff per item
+    cron.schedule('*/30 * * * * *', async () => {
+      await this.outbox.processDue();
     });
 
-    // Run immediately on startup
-    this.runInitialPolling();
+    // Check the state store every minute, admins hear about it when it's down and when it's back
+    cron.schedule('* * * * *', async () => {
+      await this.checkDatabase();
+    });
   }
 
-  private async runInitialPolling(): Promise<void> {
-    try {
-      console.log('Running initial polling...');
-      
-      // Add a small delay to make sure Discord client is ready
-      await new Promise(resolve => setTimeout(resolve, 5000));
-      
-      // Run initial checks with single post limit and force processing
-      console.log('Fetching initial Truth Social post...');
-      await truthSocialService.fetchLatestPosts(1, true);
-      
-      console.log('Initial polling complete');
-    } catch (error) {
-      console.error('Error during initial polling:', error);
+  private async checkDatabase(): Promise<void> {
+    if (this.db.isInitialized) {
+      await this.incidents.resolve('database');
+    } else if (Date.now() - this.startedAt > DATABASE_GRACE_MS) {
+      await this.incidents.raise(
+        'database',
+        'The database is unavailable',
+        'The state store could not be reached, posts are not being tracked or delivered. Check COUCHDB_URL and the db container, or STATE_FILE for the file backend. The bot keeps reconnecting in the background.'
+      );
     }
   }
 }
-
-export default new Scheduler(); 
\ No newline at end of file
@@ -0,0 +1,57 @@
+import axios from 'axios';
+import { AppConfig } from './config';
+import { PostPage, PostSource, SourceRejectedError, TruthSocialApiPost, logMediaDebugInfo, mapApiPost } from './postSource';
+
+interface TruthSocialApiResponse {
+  success: boolean;
+  // Why the request failed when success is false
+  message?: string;
+  posts: TruthSocialApiPost[];
+  next_max_id?: string;
+}
+
+// Paid ScrapeCreators API, see https://scrapecreators.com
+export class ScrapeCreatorsSource implements PostSource {
+  readonly name = 'ScrapeCreators';
+  private apiKey: string;
+  private baseUrl: string = 'https://api.scrapecreators.com/v1/truthsocial';
+
+  constructor(settings: AppConfig['sources']) {
+    this.apiKey = settings.scrapeCreatorsApiKey;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  async fetchPosts(handle: string, maxId?: string): Promise<PostPage> {
+    // Using the correct API endpoint based on the provided documentation
+    const response = await axios.get<TruthSocialApiResponse>(`${this.baseUrl}/user/posts`, {
+      params: {
+        handle,
+        ...(maxId ? { next_max_id: maxId } : {})
+      },
+      headers: {
+        'x-api-key': this.apiKey
+      }
+    });
+
+    // Failures can come back as HTTP 200, they must not look like an empty page
+    if (response.data && response.data.success === false) {
+      throw new SourceRejectedError(this.name, response.data.message || 'no reason given');
+    }
+
+    if (!response.data || !response.data.posts) {
+      return { posts: [] };
+    }
+
+    if (!maxId && response.data.posts.length > 0) {
+      logMediaDebugInfo(response.data.posts[0]);
+    }
+
+    return {
+      posts: response.data.posts.map(mapApiPost),
+      nextMaxId: response.data.next_max_id
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import axios from 'axios';
+import { AppConfig } from './config';
+import { Notifier, formatPostText } from './notifier';
+import { TruthSocialPost } from './types';
+import { UrgencyTier } from './urgencyTiers';
+
+// Slack mrkdwn only treats these three as special
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Posts to a Slack incoming webhook, see https://api.slack.com/messaging/webhooks
+export class SlackNotifier implements Notifier {
+  readonly name = 'Slack';
+  private webhookUrl: string;
+
+  constructor(settings: AppConfig['notifiers']['slack']) {
+    this.webhookUrl = settings.webhookUrl;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.webhookUrl);
+  }
+
+  async notify(post: TruthSocialPost, tier: UrgencyTier): Promise<void> {
+    const heading = tier === 'breaking' ? '🚨 *BREAKING Truth Social Post*' : '📢 *New Truth Social Post*';
+    const image = post.media_attachments?.find(attachment => attachment.type === 'image');
+
+    // Section text is capped at 3000 characters
+    const text = escapeSlack(formatPostText(post)).slice(0, 2900);
+
+    await axios.post(this.webhookUrl, {
+      // Fallback for notifications and clients without blocks
+      text: `${heading}\n${text}`,
+      blocks: [
+        { type: 'section', text: { type: 'mrkdwn', text: `${heading}\n${text}` } },
+        ...(image ? [{ type: 'image', image_url: image.url, alt_text: 'Post image' }] : []),
+        { type: 'context', elements: [{ type: 'mrkdwn', text: `<${post.url}|View on Truth Social>` }] }
+      ]
+    }, { timeout: 10000 });
+  }
+}
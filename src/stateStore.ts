@@ -0,0 +1,202 @@
+import { DateFormat } from './dateFormat';
+import { FilterRule } from './filterRules';
+import { TruthSocialPost } from './types';
+
+// A Discord channel that receives tracker alerts
+export interface Subscription {
+  _id: string;
+  _rev?: string;
+  type: 'subscription';
+  guildId: string;
+  channelId: string;
+  createdBy: string;
+  createdAt: string;
+  filter?: FilterRule;
+  // Per-post alerts, periodic digests, or both. Missing means realtime.
+  delivery?: DeliveryMode;
+  // Which digest the channel gets when delivery includes digests. Missing means daily.
+  digestSchedule?: DigestSchedule;
+  // Role pinged for posts at or above MENTION_TIER
+  mentionRoleId?: string;
+  // Set with /timeformat, missing fields use the DISPLAY_* settings
+  dateFormat?: Partial<DateFormat>;
+}
+
+// Where one alert goes, and who it pings
+export interface DeliveryTarget {
+  channelId: string;
+  mentionRoleId?: string;
+}
+
+export type DeliveryMode = 'realtime' | 'digest' | 'both';
+export type DigestSchedule = 'daily' | 'weekly';
+
+// A post waiting to be delivered to one channel
+export interface OutboxItem {
+  _id: string;
+  _rev?: string;
+  type: 'outbox';
+  channelId: string;
+  mentionRoleId?: string;
+  post: TruthSocialPost;
+  status: 'pending' | 'delivered' | 'dead';
+  attempts: number;
+  nextAttemptAt: string;
+  createdAt: string;
+  deliveredAt?: string;
+  // ID of the Discord message the post was announced in
+  messageId?: string;
+  lastError?: string;
+}
+
+// Snapshot of a post we've announced, used to spot later edits and deletions
+export interface AnnouncedPost {
+  _id: string;
+  _rev?: string;
+  type: 'announced';
+  postId: string;
+  // Lowercased handle of the account that made the post
+  handle: string;
+  postCreatedAt: string;
+  post: TruthSocialPost;
+  // Prefixed with the hash version, see hashPost in postChangeTracker.ts
+  contentHash: string;
+  status: 'active' | 'deleted';
+  messages: { channelId: string; messageId: string }[];
+  editCount: number;
+  editedAt?: string;
+  deletedAt?: string;
+  // Last time the Discord messages were refreshed with new counts
+  engagementUpdatedAt?: string;
+  trendingAlertedAt?: string;
+}
+
+// Counts at one point in time, recorded while a post is young
+export interface EngagementSnapshot {
+  at: string;
+  replies: number;
+  reblogs: number;
+  favourites: number;
+}
+
+// Every fetched post is kept here so history survives beyond the alerts themselves
+export interface ArchivedPost {
+  _id: string;
+  _rev?: string;
+  type: 'post';
+  // Lowercased handle, top-level fields are what the indexes and views use
+  handle: string;
+  createdAt: string;
+  post: TruthSocialPost;
+  // Count history over the post's first ENGAGEMENT_SNAPSHOT_HOURS
+  engagement: EngagementSnapshot[];
+  firstSeenAt: string;
+  updatedAt: string;
+}
+
+// Engagement snapshots are only recorded while a post is younger than this
+const ENGAGEMENT_SNAPSHOT_HOURS = 24;
+
+// The archive document for a fetched post, merged with the stored one, or null when nothing changed.
+// Every backend builds its documents here and only takes care of persisting them.
+export function buildArchivedPost(id: string, post: TruthSocialPost, existing: ArchivedPost | undefined, now: string): ArchivedPost | null {
+  if (existing && JSON.stringify(existing.post) === JSON.stringify(post)) return null;
+
+  const engagement = existing?.engagement ?? [];
+  const countsChanged = !existing ||
+    existing.post.repliesCount !== post.repliesCount ||
+    existing.post.reblogsCount !== post.reblogsCount ||
+    existing.post.favouritesCount !== post.favouritesCount;
+  const ageHours = (Date.now() - new Date(post.createdAt).getTime()) / (60 * 60 * 1000);
+
+  return {
+    _id: id,
+    ...(existing?._rev ? { _rev: existing._rev } : {}),
+    type: 'post',
+    handle: post.account.username.toLowerCase(),
+    createdAt: post.createdAt,
+    post,
+    engagement: countsChanged && ageHours <= ENGAGEMENT_SNAPSHOT_HOURS
+      ? [...engagement, { at: now, replies: post.repliesCount, reblogs: post.reblogsCount, favourites: post.favouritesCount }]
+      : engagement,
+    firstSeenAt: existing?.firstSeenAt ?? now,
+    updatedAt: now
+  };
+}
+
+// Writes that users asked for should fail loudly rather than be silently dropped
+export function assertInitialized(store: StateStore, problem: string): void {
+  if (!store.isInitialized) {
+    throw new Error(problem);
+  }
+}
+
+// All state in a backend-neutral shape. It is also FileStateStore's file format.
+export interface StateSnapshot {
+  // Last seen post ID keyed by lowercased handle or subreddit
+  truthSocialCursors: Record<string, string>;
+  redditCursors: Record<string, string>;
+  subscriptions: Subscription[];
+  outbox: OutboxItem[];
+  announced: AnnouncedPost[];
+  archive: ArchivedPost[];
+}
+
+export function emptyStateSnapshot(): StateSnapshot {
+  return { truthSocialCursors: {}, redditCursors: {}, subscriptions: [], outbox: [], announced: [], archive: [] };
+}
+
+// Storage used by the services: CouchDbStore, FileStateStore for single-host deployments, and an in-memory fake in tests
+export interface StateStore {
+  // False until connect() succeeds and while the backend is unreachable
+  readonly isInitialized: boolean;
+  // Resolves once the store is usable, retrying in the background until then
+  connect(): Promise<void>;
+  getLastSeenTruthSocialPost(handle: string): Promise<string | undefined>;
+  updateLastSeenTruthSocialPost(handle: string, postId: string): Promise<void>;
+  // Undefined only for a subreddit never seen before, a failed read throws
+  getLastSeenRedditPost(subreddit: string): Promise<string | undefined>;
+  updateLastSeenRedditPost(subreddit: string, postId: string): Promise<void>;
+  recordAnnouncedMessage(post: TruthSocialPost, contentHash: string, channelId: string, messageId: string): Promise<void>;
+  getActiveAnnouncedPosts(handle: string, since: Date): Promise<AnnouncedPost[]>;
+  updateAnnouncedPost(doc: AnnouncedPost): Promise<void>;
+  archivePosts(posts: TruthSocialPost[]): Promise<void>;
+  getArchivedPost(postId: string): Promise<ArchivedPost | null>;
+  getArchivedPostsBetween(from: Date, to: Date, limit?: number): Promise<ArchivedPost[]>;
+  searchArchivedPosts(query: string, from?: Date, to?: Date, limit?: number): Promise<ArchivedPost[]>;
+  getSubscriptions(guildId?: string): Promise<Subscription[]>;
+  getSubscription(channelId: string): Promise<Subscription | null>;
+  addSubscription(guildId: string, channelId: string, createdBy: string, delivery?: DeliveryMode): Promise<boolean>;
+  removeSubscription(channelId: string): Promise<boolean>;
+  setSubscriptionDelivery(channelId: string, delivery: DeliveryMode, digestSchedule?: DigestSchedule): Promise<Subscription | null>;
+  setSubscriptionMentionRole(channelId: string, roleId: string | undefined): Promise<boolean>;
+  setSubscriptionFilter(channelId: string, filter: FilterRule | undefined): Promise<boolean>;
+  setSubscriptionDateFormat(channelId: string, dateFormat: Partial<DateFormat> | undefined): Promise<boolean>;
+  enqueueOutboxItems(post: TruthSocialPost, targets: DeliveryTarget[]): Promise<void>;
+  // Every item still waiting for delivery, due or not, so the outbox can keep each channel in order
+  getPendingOutboxItems(): Promise<OutboxItem[]>;
+  updateOutboxItem(item: OutboxItem): Promise<void>;
+  // Deletes delivered items older than deliveredBefore and dead letters whose last attempt was before deadBefore,
+  // returns how many went
+  pruneOutboxItems(deliveredBefore: Date, deadBefore: Date): Promise<number>;
+  // Everything the store holds, for moving it to another backend
+  exportState(): Promise<StateSnapshot>;
+  // Adds the snapshot's documents, replacing any with the same ID
+  importState(snapshot: StateSnapshot): Promise<void>;
+}
+
+
+// Copies all state from one store into another, returning what was copied for the log
+export async function migrateState(from: StateStore, to: StateStore): Promise<string> {
+  const snapshot = await from.exportState();
+  await to.importState(snapshot);
+
+  return [
+    `${Object.keys(snapshot.truthSocialCursors).length} Truth Social cursors`,
+    `${Object.keys(snapshot.redditCursors).length} Reddit cursors`,
+    `${snapshot.subscriptions.length} subscriptions`,
+    `${snapshot.outbox.length} outbox items`,
+    `${snapshot.announced.length} announced posts`,
+    `${snapshot.archive.length} archived posts`
+  ].join(', ');
+}
@@ -0,0 +1,42 @@
+import axios from 'axios';
+import { AppConfig } from './config';
+import { Notifier, formatPostText } from './notifier';
+import { TruthSocialPost } from './types';
+import { UrgencyTier } from './urgencyTiers';
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Sends through the Telegram Bot API to TELEGRAM_CHAT_ID (a user, group or @channel)
+export class TelegramNotifier implements Notifier {
+  readonly name = 'Telegram';
+  private botToken: string;
+  private chatId: string;
+  private apiUrl: string;
+
+  constructor(settings: AppConfig['notifiers']['telegram']) {
+    this.botToken = settings.botToken;
+    this.chatId = settings.chatId;
+    this.apiUrl = settings.apiUrl;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.botToken && this.chatId);
+  }
+
+  async notify(post: TruthSocialPost, tier: UrgencyTier): Promise<void> {
+    const heading = tier === 'breaking' ? '🚨 <b>BREAKING Truth Social Post</b>' : '📢 <b>New Truth Social Post</b>';
+
+    // Messages are capped at 4096 characters after entities are parsed
+    const text = escapeHtml(formatPostText(post).slice(0, 3800));
+
+    await axios.post(`${this.apiUrl}/bot${this.botToken}/sendMessage`, {
+      chat_id: this.chatId,
+      text: `${heading}\n\n${text}\n\n<a href="${escapeHtml(post.url)}">View on Truth Social</a>`,
+      parse_mode: 'HTML',
+      // Breaking posts notify with sound, the rest arrive silently
+      disable_notification: tier !== 'breaking'
+    }, { timeout: 10000 });
+  }
+}
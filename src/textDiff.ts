@@ -0,0 +1,65 @@
+// Word level diff for showing post edits in Discord markdown
+
+// Above this many token comparisons the LCS table gets too big, fall back to before/after
+const MAX_DIFF_CELLS = 4_000_000;
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\*_~`|])/g, '\\$1');
+}
+
+// Split into words and the whitespace between them, so the diff keeps the original spacing
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter(token => token.length > 0);
+}
+
+// Returns the new text with removed words as ~~strikethrough~~ and added words in **bold**
+export function diffWords(before: string, after: string): string {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return `~~${escapeMarkdown(before)}~~\n**${escapeMarkdown(after)}**`;
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: { kind: 'same' | 'removed' | 'added'; text: string }[] = [];
+  const push = (kind: 'same' | 'removed' | 'added', text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.kind === kind) {
+      last.text += text;
+    } else {
+      parts.push({ kind, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts.map(({ kind, text }) => {
+    // Keep surrounding whitespace outside the markers, Discord ignores markers wrapped around spaces
+    const [, lead, core, trail] = text.match(/^(\s*)([\s\S]*?)(\s*)$/) ?? ['', '', text, ''];
+    if (kind === 'same' || core.length === 0) return escapeMarkdown(text);
+    const marker = kind === 'removed' ? '~~' : '**';
+    return `${lead}${marker}${escapeMarkdown(core)}${marker}${trail}`;
+  }).join('');
+}
@@ -1,140 +1,213 @@
-import axios from 'axios';
-import dotenv from 'dotenv';
-import dbService from './dbService';
-import discordClient from './discordClient';
-
-dotenv.config();
-
-// Interfaces for Truth Social API responses
-interface TruthSocialAccount {
-  id: string;
-  username: string;
-  display_name: string;
-  verified: boolean;
-  url: string;
-}
-
-interface TruthSocialApiPost {
-  id: string;
-  text: string;
-  created_at: string;
-  uri: string;
-  url: string;
-  content: string;
-  account: TruthSocialAccount;
-  media_attachments: {
-    type: string;
-    url: string;
-    preview_url?: string;
-    meta?: {
-      original?: {
-        width: number;
-        height: number;
-        aspect: number;
-      };
-      small?: {
-        width: number;
-        height: number;
-        aspect: number;
-        url: string;
-      };
-    };
-  }[];
-  card: any;
-  replies_count: number;
-  reblogs_count: number;
-  favourites_count: number;
-}
+import { ConfigService, StartupMode } from './config';
+import { StateStore, DeliveryTarget } from './stateStore';
+import { DiscordSender } from './discordClient';
+import { TruthSocialPost } from './types';
+import { matchesFilterRule } from './filterRules';
+import { RecentPosts } from './recentPosts';
+import { Outbox } from './outbox';
+import { NotifierHub } from './notifiers';
+import { PostSource, SourceRejectedError, comparePostIds, getRetryAfterMs } from './postSource';
+import { PostChangeTracker } from './postChangeTracker';
+import { UrgencyClassifier } from './urgencyTiers';
+import { Metrics } from './metrics';
+import { IncidentTracker } from './incidents';
 
-interface TruthSocialApiResponse {
-  success: boolean;
-  posts: TruthSocialApiPost[];
-  next_max_id?: string;
+// What a poll did, the AdaptivePoller picks the next interval from this
+export interface PollResult {
+  // API requests made, each one costs a credit on paid sources
+  requests: number;
+  failed: boolean;
+  rateLimited: boolean;
+  // How long the source asked us to wait, from Retry-After
+  retryAfterMs?: number;
+  // Nothing was polled because the state store isn't ready yet, worth trying again soon
+  deferred?: boolean;
 }
 
-interface TruthSocialPost {
-  id: string;
-  content: string;
-  createdAt: string;
-  url: string;
-  media_attachments?: {
-    type: string;
-    url: string;
-    preview_url: string;
-  }[];
-}
-
-class TruthSocialService {
-  private apiKey: string;
-  private baseUrl: string = 'https://api.scrapecreators.com/v1/truthsocial';
+export class TruthSocialService {
+  // Reported by /healthz, polling can fail for a long time with errors suppressed in the logs
+  lastSuccessfulPollAt: Date | null = null;
+  // Creation time of the newest post detected, polling speeds up for a while after activity
+  lastPostAt: Date | null = null;
+  // Accounts polled successfully since the bot started, STARTUP_MODE only applies to the others
+  private caughtUpHandles = new Set<string>();
   private errorCount: number = 0;
   private lastErrorTime: number = 0;
   private readonly maxErrorsBeforeWarning: number = 3;
   private readonly errorSuppressTime: number = 30 * 60 * 1000; // 30 minutes
 
-  constructor() {
-    this.apiKey = process.env.SCRAPECREATORS_API_KEY || '';
-    if (!this.apiKey) {
-      console.error('SCRAPECREATORS_API_KEY is not set in environment variables');
+  constructor(
+    private config: ConfigService,
+    private db: StateStore,
+    private discord: DiscordSender,
+    private source: PostSource,
+    private outbox: Outbox,
+    private notifiers: NotifierHub,
+    private postChangeTracker: PostChangeTracker,
+    private recentPosts: RecentPosts,
+    private urgencyClassifier: UrgencyClassifier,
+    private incidents: IncidentTracker,
+    private metrics: Metrics
+  ) {
+    if (!this.source.isConfigured()) {
+      console.error(`${this.source.name} is not configured, check SCRAPECREATORS_API_KEY in environment variables`);
+    } else {
+      console.log(`Fetching Truth Social posts via ${this.source.name}`);
     }
+
+    console.log(`Tracking Truth Social accounts: ${this.handles.map(handle => `@${handle}`).join(', ')}`);
   }
 
-  async fetchLatestPosts(limit: number = 5, forceProcess: boolean = false): Promise<void> {
-    if (!this.apiKey) {
+  // Read from the config on every poll, so accounts and limits can change without a restart
+  private get handles(): string[] {
+    return this.config.current.truthSocial.handles;
+  }
+
+  // How far back to page after an outage, and how many of the missed posts get their own alert
+  private get maxBackfillPages(): number {
+    return this.config.current.truthSocial.maxBackfillPages;
+  }
+
+  private get maxAnnouncedBackfill(): number {
+    return this.config.current.truthSocial.announceLimit;
+  }
+
+  private get maxPostAgeHours(): number {
+    return this.config.current.truthSocial.maxPostAgeHours;
+  }
+
+  private get startupMode(): StartupMode {
+    return this.config.current.truthSocial.startupMode;
+  }
+
+  // isStartup applies the STARTUP_MODE policy to posts made while the bot was offline,
+  // for each account until it has been polled successfully once
+  async fetchLatestPosts(isStartup: boolean = false): Promise<PollResult> {
+    const result: PollResult = { requests: 0, failed: false, rateLimited: false };
+
+    if (!this.source.isConfigured()) {
       // Only log this once to avoid spamming
       if (this.errorCount === 0) {
-        console.error('Cannot fetch Truth Social posts: API key not set');
+        console.error(`Cannot fetch Truth Social posts: ${this.source.name} is not configured`);
         this.errorCount++;
       }
-      return;
+      return result;
+    }
+
+    // Without the cursors every account would look new, so wait for the state store instead
+    if (!this.db.isInitialized) {
+      console.log('State store not available, skipping Truth Social poll');
+      return { ...result, deferred: true };
+    }
+
+    // Poll each account in turn so cursor updates never race each other
+    for (const handle of this.handles) {
+      await this.fetchAccountPosts(handle, isStartup && !this.caughtUpHandles.has(handle.toLowerCase()), result);
+
+      // The other accounts would only be rate limited too
+      if (result.rateLimited) {
+        break;
+      }
     }
 
+    return result;
+  }
+
+  get handleCount(): number {
+    return this.handles.length;
+  }
+
+  private async fetchAccountPosts(handle: string, isStartup: boolean, result: PollResult): Promise<void> {
+    const startedAt = Date.now();
     try {
-      // Using the correct API endpoint based on the provided documentation
-      const response = await axios.get<TruthSocialApiResponse>(`${this.baseUrl}/user/posts`, {
-        params: {
-          handle: 'realDonaldTrump'
-        },
-        headers: {
-          'x-api-key': this.apiKey
+      const lastSeenPostId = await this.db.getLastSeenTruthSocialPost(handle);
+      const postsById = new Map<string, TruthSocialPost>();
+      let maxId: string | undefined;
+
+      // Page backwards until we reach the stored cursor, so posts made during an outage aren't skipped
+      for (let page = 0; page < this.maxBackfillPages; page++) {
+        result.requests++;
+        const { posts: pagePosts, nextMaxId } = await this.source.fetchPosts(handle, maxId);
+
+        // Reset error count on success
+        this.errorCount = 0;
+
+        if (pagePosts.length === 0) {
+          break;
         }
-      });
-
-      // Reset error count on success
-      this.errorCount = 0;
-
-      if (response.data && response.data.success && response.data.posts && response.data.posts.length > 0) {
-        // Detailed logging of media attachments for debugging
-        const firstPost = response.data.posts[0];
-        if (firstPost.media_attachments?.length > 0) {
-          console.log('=== Media Attachment Debug Info ===');
-          firstPost.media_attachments.forEach((media, index) => {
-            console.log(`Media ${index + 1}:`);
-            console.log('Type:', media.type);
-            console.log('URL:', media.url);
-            console.log('Preview URL:', media.preview_url);
-            console.log('Meta:', JSON.stringify(media.meta, null, 2));
-            console.log('Full attachment:', JSON.stringify(media, null, 2));
-            console.log('------------------------');
-          });
+
+        pagePosts.forEach(post => postsById.set(post.id, post));
+
+        // Only the first page is needed on a first run, once the cursor is on this page,
+        // or once the page is older than anything we'd still announce
+        const oldestOnPage = pagePosts.reduce((oldest, post) => comparePostIds(post.id, oldest.id) < 0 ? post : oldest);
+        if (!lastSeenPostId || comparePostIds(oldestOnPage.id, lastSeenPostId) <= 0 || !this.isWithinMaxAge(oldestOnPage)) {
+          break;
+        }
+
+        if (!nextMaxId) {
+          break;
+        }
+
+        if (page === this.maxBackfillPages - 1) {
+          console.warn(
+            `Reached TRUTH_SOCIAL_MAX_BACKFILL_PAGES (${this.maxBackfillPages}) for @${handle} ` +
+            `before the last seen post, older missed posts will be skipped`
+          );
+          break;
         }
 
-        const posts = response.data.posts.map((post: TruthSocialApiPost) => ({
-          id: post.id,
-          content: post.text || post.content.replace(/<[^>]*>/g, ''), // Strip HTML tags
-          createdAt: post.created_at,
-          url: post.url,
-          media_attachments: post.media_attachments.map(media => ({
-            type: media.type,
-            url: media.url,
-            preview_url: media.preview_url || ''  // Convert null/undefined to empty string to match type
-          }))
-        }));
-
-        // Process newest posts first (they should already be in chronological order, newest first)
-        await this.processNewPosts(posts, forceProcess);
+        console.log(`Backfilling @${handle}: fetching older posts before ${nextMaxId}`);
+        maxId = nextMaxId;
       }
+
+      // Newest first, by numeric ID rather than string order
+      const posts = [...postsById.values()].sort((a, b) => comparePostIds(b.id, a.id));
+      if (posts.length > 0) {
+        this.recentPosts.add(posts);
+        await this.db.archivePosts(posts);
+        await this.processNewPosts(handle, posts, lastSeenPostId, isStartup);
+        await this.postChangeTracker.checkForChanges(handle, posts);
+      }
+
+      this.lastSuccessfulPollAt = new Date();
+      this.caughtUpHandles.add(handle.toLowerCase());
+      this.metrics.polls.inc({ source: this.source.name, result: 'success' });
+      await this.incidents.resolve(`source-auth:${handle}`);
+      await this.incidents.resolve(`source-endpoint:${handle}`);
     } catch (error: any) {
+      this.metrics.polls.inc({ source: this.source.name, result: 'error' });
+      this.metrics.apiErrors.inc({ source: this.source.name, status: String(error.response?.status ?? 'none') });
+
+      result.failed = true;
+      const retryAfterMs = getRetryAfterMs(error);
+      if (error.response?.status === 429 || retryAfterMs !== undefined) {
+        result.rateLimited = true;
+        result.retryAfterMs = Math.max(result.retryAfterMs ?? 0, retryAfterMs ?? 0) || undefined;
+      }
+
+      // These won't fix themselves, so they're reported to the admins even while the log is suppressed
+      const status = error.response?.status;
+      if (status === 401 || status === 402 || status === 403) {
+        await this.incidents.raise(
+          `source-auth:${handle}`,
+          `${this.source.name} is rejecting requests`,
+          `HTTP ${status} for @${handle}: ${error.message}. The API key may have expired or run out of credits.`
+        );
+      } else if (status === 404) {
+        await this.incidents.raise(
+          `source-endpoint:${handle}`,
+          `${this.source.name} endpoint not found`,
+          `HTTP 404 for @${handle}: ${error.message}. The Truth Social API may have changed.`
+        );
+      } else if (error instanceof SourceRejectedError) {
+        await this.incidents.raise(
+          `source-auth:${handle}`,
+          `${this.source.name} is rejecting requests`,
+          `@${handle}: ${error.apiMessage}. The API key may have expired or run out of credits.`
+        );
+      }
+
       // Implement error tracking to reduce log spam
       const currentTime = Date.now();
       this.errorCount++;
@@ -148,7 +221,7 @@ class TruthSocialService {
         
         this.lastErrorTime = currentTime;
         console.error(
-          `Truth Social API error (attempt ${this.errorCount}): ${error.message}. ` +
+          `Truth Social API error for @${handle} (attempt ${this.errorCount}): ${error.message}. ` +
           `Further similar errors will be suppressed for ${this.errorSuppressTime/60000} minutes.`
         );
 
@@ -159,39 +232,184 @@ class TruthSocialService {
           );
         }
       }
+    } finally {
+      this.metrics.pollDuration.observe((Date.now() - startedAt) / 1000, { source: this.source.name });
     }
   }
 
-  private async processNewPosts(posts: TruthSocialPost[], forceProcess: boolean = false): Promise<void> {
+  private async processNewPosts(
+    handle: string,
+    posts: TruthSocialPost[],
+    lastSeenPostId: string | undefined,
+    isStartup: boolean = false
+  ): Promise<void> {
     if (posts.length === 0) return;
 
-    // Get the last seen post ID from the database
-    const { truth_social_post_id: lastSeenPostId } = await dbService.getLastSeenPosts();
-
-    // If we have no last seen post ID or force processing is enabled, process the most recent post
-    if (!lastSeenPostId || forceProcess) {
+    // First time we see this account, announce its latest post if it's recent enough
+    if (!lastSeenPostId) {
       const postToProcess = posts[0];
-      console.log(`Processing ${forceProcess ? 'forced' : 'initial'} Truth Social post: ${postToProcess.id}`);
-      await dbService.updateLastSeenTruthSocialPost(postToProcess.id);
-      await discordClient.sendTruthSocialUpdate(postToProcess);
+      if (!this.isWithinMaxAge(postToProcess)) {
+        console.log(`Initial Truth Social post from @${handle} is older than ${this.maxPostAgeHours}h, only storing cursor`);
+        await this.db.updateLastSeenTruthSocialPost(handle, postToProcess.id);
+        return;
+      }
+
+      console.log(`Processing initial Truth Social post from @${handle}: ${postToProcess.id}`);
+      await this.attachReplyParents([postToProcess], posts);
+      await this.queueAndDeliver(handle, [postToProcess], postToProcess.id);
       return;
     }
 
     // Find new posts (those with an ID greater than the last seen post ID)
-    const newPosts = posts.filter(post => post.id > lastSeenPostId);
+    const newPosts = posts.filter(post => comparePostIds(post.id, lastSeenPostId) > 0);
+    if (newPosts.length === 0) return;
+    this.metrics.postsDetected.inc({ handle }, newPosts.length);
 
-    if (newPosts.length > 0) {
-      console.log(`Found ${newPosts.length} new Truth Social posts to process`);
-      
-      // Update the database with the most recent post ID
-      await dbService.updateLastSeenTruthSocialPost(newPosts[0].id);
+    const newestCreatedAt = new Date(newPosts[0].createdAt);
+    if (!this.lastPostAt || newestCreatedAt > this.lastPostAt) {
+      this.lastPostAt = newestCreatedAt;
+    }
 
-      // Send Discord notifications for each new post, from oldest to newest
-      for (const post of newPosts.reverse()) {
-        await discordClient.sendTruthSocialUpdate(post);
+    const cursorId = newPosts[0].id;
+    const recentNewPosts = newPosts.filter(post => this.isWithinMaxAge(post));
+    if (recentNewPosts.length < newPosts.length) {
+      console.log(
+        `Skipping ${newPosts.length - recentNewPosts.length} posts from @${handle} ` +
+        `older than MAX_POST_AGE_HOURS (${this.maxPostAgeHours}h)`
+      );
+    }
+
+    if (recentNewPosts.length === 0) {
+      await this.db.updateLastSeenTruthSocialPost(handle, cursorId);
+      return;
+    }
+
+    if (isStartup && this.startupMode === 'skip') {
+      console.log(`Startup mode "skip": not announcing ${recentNewPosts.length} posts from @${handle} made while offline`);
+      await this.db.updateLastSeenTruthSocialPost(handle, cursorId);
+      return;
+    }
+
+    if (isStartup && this.startupMode === 'digest') {
+      console.log(`Startup mode "digest": summarizing ${recentNewPosts.length} posts from @${handle} made while offline`);
+      await this.db.updateLastSeenTruthSocialPost(handle, cursorId);
+      await this.sendSummaries(recentNewPosts, `📬 ${recentNewPosts.length} Truth Social posts missed while offline`);
+      return;
+    }
+
+    console.log(`Found ${recentNewPosts.length} new Truth Social posts from @${handle} to process`);
+    await this.attachReplyParents(recentNewPosts, posts);
+    await this.queueAndDeliver(handle, recentNewPosts, cursorId);
+  }
+
+  // Fill in the parent of replies the API didn't include it for, from the fetched posts or the archive.
+  // Replies to the account's own earlier posts are common, so usually one of them has it.
+  private async attachReplyParents(replies: TruthSocialPost[], fetched: TruthSocialPost[]): Promise<void> {
+    const fetchedById = new Map(fetched.map(post => [post.id, post]));
+
+    for (const post of replies) {
+      const parent = post.inReplyTo;
+      if (!parent || parent.post) continue;
+
+      let found = fetchedById.get(parent.id);
+      if (!found && this.db.isInitialized) {
+        try {
+          found = (await this.db.getArchivedPost(parent.id))?.post;
+        } catch (error) {
+          console.error(`Error looking up the parent of reply ${post.id}:`, error);
+        }
+      }
+
+      if (found) {
+        post.inReplyTo = { ...parent, username: found.account.username, url: found.url, post: found };
       }
     }
   }
-}
 
-export default new TruthSocialService(); 
\ No newline at end of file
+  private isWithinMaxAge(post: TruthSocialPost): boolean {
+    const createdAt = new Date(post.createdAt).getTime();
+    // Keep posts with an unparseable date rather than silently dropping them
+    return isNaN(createdAt) || Date.now() - createdAt <= this.maxPostAgeHours * 60 * 60 * 1000;
+  }
+
+  // Queue posts (newest first) in the outbox before moving the cursor, so nothing is lost if Discord is down.
+  // After a long outage only the newest posts are announced one by one, the rest are summarized.
+  private async queueAndDeliver(handle: string, newPosts: TruthSocialPost[], cursorId: string): Promise<void> {
+    // The config file's filter applies to every destination, the cursor still moves past what it drops
+    const globalFilter = this.config.current.filter ?? undefined;
+    const wanted = newPosts.filter(post => matchesFilterRule(post, globalFilter));
+    const announced = wanted.slice(0, this.maxAnnouncedBackfill);
+    const summarized = wanted.slice(this.maxAnnouncedBackfill);
+
+    try {
+      // Queue from oldest to newest
+      for (const post of [...announced].reverse()) {
+        await this.outbox.enqueue(post, await this.getMatchingChannels(post));
+      }
+    } catch (error) {
+      // Leave the cursor alone so the same posts are picked up again on the next poll
+      console.error(`Error queueing Truth Social posts from @${handle}, will retry next poll:`, error);
+      return;
+    }
+
+    // Update the database with the most recent post ID
+    await this.db.updateLastSeenTruthSocialPost(handle, cursorId);
+
+    this.notifiers.enqueue([...announced].reverse());
+
+    if (summarized.length > 0) {
+      console.log(`Summarizing ${summarized.length} older missed posts from @${handle} instead of announcing them`);
+      await this.sendSummaries(summarized, `🕰️ ${summarized.length} earlier Truth Social posts missed while offline`);
+    }
+
+    await this.outbox.processDue();
+  }
+
+  // Send each channel one summary of the missed posts its filter would have let through
+  private async sendSummaries(posts: TruthSocialPost[], title: string): Promise<void> {
+    const postsByChannel = new Map<string, TruthSocialPost[]>();
+    for (const post of posts) {
+      for (const { channelId } of await this.getMatchingChannels(post)) {
+        postsByChannel.set(channelId, [...(postsByChannel.get(channelId) ?? []), post]);
+      }
+    }
+
+    for (const [channelId, channelPosts] of postsByChannel) {
+      try {
+        await this.discord.sendPostSummary(channelPosts, title, channelId);
+      } catch (error) {
+        console.error(`Error sending backfill summary to channel ${channelId}:`, error);
+      }
+    }
+  }
+
+  // Evaluate each subscription's filter rule and return the channels that want this post right away
+  private async getMatchingChannels(post: TruthSocialPost): Promise<DeliveryTarget[]> {
+    // Digest-only channels get their posts from DigestService instead
+    const subscriptions = (await this.db.getSubscriptions()).filter(sub => sub.delivery !== 'digest');
+    const matching = subscriptions.filter(sub => {
+      try {
+        return matchesFilterRule(post, sub.filter);
+      } catch (error) {
+        // A rule that no longer compiles shouldn't silence the channel
+        console.error(`Error evaluating filter for channel ${sub.channelId}:`, error);
+        return true;
+      }
+    });
+
+    if (subscriptions.length > 0 && matching.length < subscriptions.length) {
+      console.log(`Post ${post.id} filtered out for ${subscriptions.length - matching.length} of ${subscriptions.length} channels`);
+    }
+
+    // Only urgent enough posts ping the channel's role
+    const tier = this.urgencyClassifier.classify(post);
+    const mention = this.urgencyClassifier.shouldMention(tier);
+    const targets: DeliveryTarget[] = matching.map(sub => ({
+      channelId: sub.channelId,
+      mentionRoleId: mention ? sub.mentionRoleId : undefined
+    }));
+
+    return this.discord.withDefaultChannel(targets.map(target => target.channelId))
+      .map(channelId => targets.find(target => target.channelId === channelId) ?? { channelId });
+  }
+}
@@ -0,0 +1,91 @@
+// Shared types passed between the polling services and the Discord client
+
+// Author details of a Truth Social post, taken from the API response
+export interface TruthSocialAuthor {
+  id: string;
+  username: string;
+  displayName: string;
+  url: string;
+  avatar: string;
+}
+
+// A post of the account's own, a ReTruth of someone else's post, a post quoting another one, or a reply
+export type PostKind = 'original' | 'repost' | 'quote' | 'reply';
+
+export interface TruthSocialPost {
+  id: string;
+  // For ReTruths this is the reposted post's text, so filters and tiers see what was actually shared
+  content: string;
+  // The HTML the plain text came from, rendered as Discord markdown in embeds. Missing on posts archived before it was kept.
+  contentHtml?: string;
+  createdAt: string;
+  url: string;
+  account: TruthSocialAuthor;
+  // Missing on posts stored before kinds were detected, read it with getPostKind
+  kind?: PostKind;
+  // True when this is a ReTruth of another post
+  isRepost: boolean;
+  // The ReTruthed post, with its own author and counts
+  reposted?: TruthSocialPost;
+  // The post being quoted, missing if the API left it out
+  quoted?: TruthSocialPost;
+  inReplyTo?: TruthSocialReplyParent;
+  repliesCount: number;
+  reblogsCount: number;
+  favouritesCount: number;
+  media_attachments?: {
+    type: string;
+    url: string;
+    preview_url: string;
+    meta?: {
+      original?: {
+        // Seconds, only set for videos
+        duration?: number;
+        width?: number;
+        height?: number;
+      };
+    };
+    // Set once the file was copied into the media archive, see MediaMirror
+    mirror?: MirroredMedia;
+  }[];
+  // Link preview for the first URL in the post
+  card?: TruthSocialCard | null;
+}
+
+// A downloaded copy of a media attachment, stored in the media archive under its SHA-256
+export interface MirroredMedia {
+  sha256: string;
+  contentType: string;
+  bytes: number;
+  // Name of the file when uploaded to Discord, embeds refer to it as attachment://<fileName>
+  fileName: string;
+}
+
+// What we know about the post a reply answers. The post itself is only there when the API
+// included it or it was found in the archive.
+export interface TruthSocialReplyParent {
+  id: string;
+  // Handle of the account replied to, when known
+  username?: string;
+  url?: string;
+  post?: TruthSocialPost;
+}
+
+export interface TruthSocialCard {
+  url: string;
+  title: string;
+  description?: string;
+  image?: string;
+  providerName?: string;
+}
+
+export interface RedditPost {
+  id: string;
+  title: string;
+  url: string;
+  // Unix timestamp in seconds
+  created: number;
+  author?: string;
+  content?: string;
+  subreddit?: string;
+}
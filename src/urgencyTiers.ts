@@ -0,0 +1,44 @@
+import { ConfigService, URGENCY_TIERS, UrgencyTier } from './config';
+import { TruthSocialPost } from './types';
+
+export { URGENCY_TIERS, UrgencyTier };
+
+// Posts need at least this many letters before the ALL-CAPS ratio means anything
+const MIN_LETTERS_FOR_CAPS = 20;
+
+// Sorts posts into urgency tiers from configurable rules, re-read on every post so reloads apply right away
+export class UrgencyClassifier {
+  constructor(private config: ConfigService) {}
+
+  get mentionTier(): UrgencyTier {
+    return this.config.current.tiers.mentionTier;
+  }
+
+  classify(post: TruthSocialPost): UrgencyTier {
+    const { breakingKeywords, capsRatio, videoIsBreaking } = this.config.current.tiers;
+    const text = post.content.toLowerCase();
+    if (breakingKeywords.some(keyword => text.includes(keyword))) {
+      return 'breaking';
+    }
+
+    const letters = post.content.replace(/[^a-zA-Z]/g, '');
+    if (capsRatio > 0 && letters.length >= MIN_LETTERS_FOR_CAPS) {
+      const upper = letters.replace(/[^A-Z]/g, '').length;
+      if (upper / letters.length >= capsRatio) {
+        return 'breaking';
+      }
+    }
+
+    if (videoIsBreaking && (post.media_attachments ?? []).some(attachment => attachment.type === 'video')) {
+      return 'breaking';
+    }
+
+    return 'normal';
+  }
+
+  // Whether a post of this tier should ping the channel's role
+  shouldMention(tier: UrgencyTier): boolean {
+    return URGENCY_TIERS.indexOf(tier) >= URGENCY_TIERS.indexOf(this.mentionTier);
+  }
+}
+
@@ -0,0 +1,42 @@
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { AppConfig } from './config';
+import { Notifier } from './notifier';
+import { TruthSocialPost } from './types';
+import { UrgencyTier } from './urgencyTiers';
+
+// Sign `${timestamp}.${body}` so receivers can reject replayed or tampered payloads
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// POSTs each post as JSON to WEBHOOK_URL, signed with WEBHOOK_SECRET when one is set
+export class WebhookNotifier implements Notifier {
+  readonly name = 'Webhook';
+  private url: string;
+  private secret: string;
+
+  constructor(settings: AppConfig['notifiers']['webhook']) {
+    this.url = settings.url;
+    this.secret = settings.secret;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.url);
+  }
+
+  async notify(post: TruthSocialPost, tier: UrgencyTier): Promise<void> {
+    // Send the exact string that was signed, re-serializing could change it
+    const body = JSON.stringify({ event: 'post.created', tier, post });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    await axios.post(this.url, body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Timestamp': timestamp,
+        ...(this.secret ? { 'X-Webhook-Signature': `sha256=${signWebhookPayload(this.secret, timestamp, body)}` } : {})
+      },
+      timeout: 10000
+    });
+  }
+}
@@ -0,0 +1,160 @@
+import { AdaptivePoller } from '../src/adaptivePoller';
+import { AppConfig } from '../src/config';
+import { mapApiPost } from '../src/postSource';
+import { PollResult } from '../src/truthSocialService';
+import { apiPost } from './fixtures/truthSocialApi';
+import { createTestServices } from './support/harness';
+
+const COMPLETED: PollResult = { requests: 1, failed: false, rateLimited: false };
+const DEFERRED: PollResult = { requests: 0, failed: false, rateLimited: false, deferred: true };
+const FAILED: PollResult = { requests: 1, failed: true, rateLimited: false };
+const MINUTE_MS = 60 * 1000;
+
+describe('AdaptivePoller', () => {
+  beforeEach(() => {
+    // Midnight UTC, so the whole daily budget is still ahead
+    jest.useFakeTimers({ now: new Date('2025-01-04T00:00:00.000Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  // Every poll returns the next result in line, the last one repeats
+  const setup = (results: PollResult[], polling: Partial<AppConfig['polling']> = {}) => {
+    const services = createTestServices({ polling: { intervalMinutes: 5, quietHours: [], ...polling } });
+    const pollTimes: number[] = [];
+    const fetchLatestPosts = jest.spyOn(services.truthSocialService, 'fetchLatestPosts').mockImplementation(async () => {
+      pollTimes.push(Date.now());
+      return results.length > 1 ? results.shift()! : results[0];
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const poller = new AdaptivePoller(services.config, services.db, services.truthSocialService);
+
+    // Minutes between each poll and the one before it, to one decimal, for the first few polls after start
+    const gapsBetweenPolls = async (polls: number, stepMs = 10 * 1000): Promise<number[]> => {
+      poller.start(0);
+      while (pollTimes.length < polls) {
+        await jest.advanceTimersByTimeAsync(stepMs);
+      }
+      return pollTimes.slice(1).map((time, index) => Math.round((time - pollTimes[index]) / MINUTE_MS * 10) / 10);
+    };
+
+    return { ...services, fetchLatestPosts, poller, gapsBetweenPolls };
+  };
+
+  describe('startup', () => {
+    it('retries a deferred startup poll soon and still applies STARTUP_MODE to it', async () => {
+      const { poller, fetchLatestPosts } = setup([DEFERRED, COMPLETED]);
+      poller.start(0);
+
+      await jest.advanceTimersByTimeAsync(0);
+      await jest.advanceTimersByTimeAsync(30 * 1000);
+
+      expect(fetchLatestPosts.mock.calls).toEqual([[true], [true]]);
+
+      await jest.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+      expect(fetchLatestPosts.mock.calls).toEqual([[true], [true], [false]]);
+    });
+
+    it('keeps applying STARTUP_MODE after a failed startup poll', async () => {
+      const { poller, fetchLatestPosts } = setup([FAILED, COMPLETED]);
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+      poller.start(0);
+
+      await jest.advanceTimersByTimeAsync(0);
+      await jest.advanceTimersByTimeAsync(5 * 60 * 1000);
+
+      expect(fetchLatestPosts.mock.calls).toEqual([[true], [true]]);
+    });
+  });
+
+  describe('interval', () => {
+    it('polls faster while there has been recent activity', async () => {
+      const { truthSocialService, gapsBetweenPolls } = setup([COMPLETED], { activeIntervalMinutes: 1, activeWindowMinutes: 3 });
+      truthSocialService.lastPostAt = new Date();
+
+      expect(await gapsBetweenPolls(5)).toEqual([1, 1, 1, 5]);
+    });
+
+    it('polls slower in the configured quiet hours, in the polling timezone', async () => {
+      // Midnight UTC is 19:00 the evening before in New York
+      const { gapsBetweenPolls } = setup([COMPLETED], { quietHours: [19], timeZone: 'America/New_York' });
+
+      expect(await gapsBetweenPolls(3, MINUTE_MS)).toEqual([30, 30]);
+    });
+
+    // Posts between noon and midnight UTC on each of the last few days, none in the morning
+    const archiveAfternoons = async (services: ReturnType<typeof setup>, days: number) => {
+      let id = 100;
+      for (let day = 1; day <= days; day++) {
+        for (let hour = 12; hour < 24; hour++) {
+          await services.db.archivePosts([mapApiPost(apiPost(String(id++), { minutesAgo: (day * 24 - hour) * 60 }))]);
+        }
+      }
+    };
+
+    it('learns quiet hours from the archive when none are configured', async () => {
+      const services = setup([COMPLETED], { quietHours: null, timeZone: 'UTC' });
+      await archiveAfternoons(services, 5);
+
+      expect(await services.gapsBetweenPolls(3, MINUTE_MS)).toEqual([30, 30]);
+      expect(console.log).toHaveBeenCalledWith('Learned quiet hours (UTC): 0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11');
+    });
+
+    it('does not learn quiet hours from too few posts', async () => {
+      const services = setup([COMPLETED], { quietHours: null, timeZone: 'UTC' });
+      await archiveAfternoons(services, 4);
+
+      expect(await services.gapsBetweenPolls(3)).toEqual([5, 5]);
+    });
+  });
+
+  describe('backoff', () => {
+    it('doubles the delay after each failure up to the maximum, and resets after a success', async () => {
+      const { gapsBetweenPolls } = setup([FAILED, FAILED, FAILED, FAILED, COMPLETED, COMPLETED], { maxBackoffMinutes: 30 });
+      // The jitter picks the top of its range
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+
+      expect(await gapsBetweenPolls(6)).toEqual([5, 10, 20, 30, 5]);
+    });
+
+    it('jitters the backoff between half and all of it', async () => {
+      const { gapsBetweenPolls } = setup([FAILED, COMPLETED]);
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+
+      expect(await gapsBetweenPolls(2)).toEqual([2.5]);
+    });
+
+    it('waits at least as long as Retry-After asks', async () => {
+      const { gapsBetweenPolls } = setup([{ ...FAILED, rateLimited: true, retryAfterMs: 45 * MINUTE_MS }, COMPLETED]);
+
+      expect(await gapsBetweenPolls(2, MINUTE_MS)).toEqual([45]);
+    });
+  });
+
+  describe('daily credit budget', () => {
+    it('spreads the remaining credits over the rest of the day', async () => {
+      // 1 of 49 credits used at midnight leaves 48 polls for 24 hours
+      const { gapsBetweenPolls } = setup([COMPLETED], { dailyCreditBudget: 49 });
+
+      expect(await gapsBetweenPolls(3, MINUTE_MS)).toEqual([30, 30]);
+    });
+
+    it('pauses until the next UTC day once the credits are used up', async () => {
+      const { gapsBetweenPolls } = setup([{ ...COMPLETED, requests: 10 }, COMPLETED], { dailyCreditBudget: 10 });
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(await gapsBetweenPolls(2, 10 * MINUTE_MS)).toEqual([24 * 60]);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('budget of 10 used up'));
+    });
+
+    it('is not spent by deferred polls', async () => {
+      const { gapsBetweenPolls } = setup([DEFERRED, DEFERRED, COMPLETED], { dailyCreditBudget: 49 });
+
+      expect(await gapsBetweenPolls(4)).toEqual([0.5, 0.5, 30]);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigError, ConfigService, loadConfig } from '../src/config';
+import { TEST_ENV } from './support/harness';
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trump-tracker-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeConfig(name: string, contents: string): string {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, contents);
+    return file;
+  }
+
+  function problemsFor(env: NodeJS.ProcessEnv, file: string | null = null): string[] {
+    try {
+      loadConfig(env, file);
+    } catch (error) {
+      if (error instanceof ConfigError) return error.problems;
+      throw error;
+    }
+    return [];
+  }
+
+  it('fills in defaults from a minimal environment', () => {
+    const config = loadConfig(TEST_ENV, null);
+
+    expect(config.truthSocial).toEqual({
+      handles: ['realDonaldTrump'],
+      maxBackfillPages: 5,
+      announceLimit: 10,
+      maxPostAgeHours: 24,
+      startupMode: 'catch-up'
+    });
+    expect(config.filter).toBeNull();
+    expect(config.health.port).toBe(8080);
+  });
+
+  it('reports every problem at once', () => {
+    const problems = problemsFor({
+      POLL_INTERVAL_MINUTES: 'often',
+      STARTUP_MODE: 'replay',
+      ADMIN_USER_IDS: '123',
+      TELEGRAM_BOT_TOKEN: 'token'
+    });
+
+    expect(problems).toEqual(expect.arrayContaining([
+      expect.stringContaining('DISCORD_TOKEN'),
+      expect.stringContaining('COUCHDB_USERNAME'),
+      expect.stringContaining('POLL_INTERVAL_MINUTES'),
+      expect.stringContaining('STARTUP_MODE (truthSocial.startupMode in the config file) must be one of skip, catch-up, digest'),
+      expect.stringContaining('ADMIN_USER_IDS'),
+      'SCRAPECREATORS_API_KEY is required when POST_SOURCE is scrapecreators',
+      'TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_ID must be set together'
+    ]));
+  });
+
+  it('checks the default time zone, locale and clock for alerts', () => {
+    expect(problemsFor({ ...TEST_ENV, DISPLAY_TIMEZONE: 'Europe/Atlantis', DISPLAY_LOCALE: 'xx-YY', DISPLAY_CLOCK: '36h' })).toEqual([
+      expect.stringContaining('DISPLAY_TIMEZONE (display.timeZone in the config file) must be an IANA timezone'),
+      expect.stringContaining('DISPLAY_LOCALE (display.locale in the config file) must be a locale'),
+      expect.stringContaining('DISPLAY_CLOCK (display.clock in the config file) must be one of 12h, 24h')
+    ]);
+  });
+
+  it('reads the YAML file, with the environment taking precedence', () => {
+    const file = writeConfig('config.yaml', [
+      'truthSocial:',
+      '  handles: ["@realDonaldTrump", JDVance]',
+      '  announceLimit: 3',
+      'polling:',
+      '  quietHours: "22-2"',
+      'filter:',
+      '  excludeReposts: true'
+    ].join('\n'));
+
+    const config = loadConfig({ ...TEST_ENV, BACKFILL_ANNOUNCE_LIMIT: '7' }, file);
+
+    expect(config.truthSocial.handles).toEqual(['realDonaldTrump', 'JDVance']);
+    expect(config.truthSocial.announceLimit).toBe(7);
+    expect(config.polling.quietHours).toEqual([0, 1, 2, 22, 23]);
+    expect(config.filter).toEqual({ excludeReposts: true });
+  });
+
+  it('only needs CouchDB credentials for the couchdb backend', () => {
+    const { COUCHDB_USERNAME, COUCHDB_PASSWORD, ...env } = TEST_ENV;
+
+    expect(problemsFor(env)).toEqual(['COUCHDB_USERNAME and COUCHDB_PASSWORD are required when STATE_BACKEND is couchdb']);
+    expect(loadConfig({ ...env, STATE_BACKEND: 'file', STATE_FILE: 'state/bot.json' }, null).storage)
+      .toEqual({ backend: 'file', file: path.resolve('state/bot.json') });
+  });
+
+  it('rejects a filter rule whose regex does not compile', () => {
+    const file = writeConfig('config.json', JSON.stringify({ filter: { includeRegex: ['(unclosed'] } }));
+
+    expect(problemsFor(TEST_ENV, file)).toEqual([expect.stringContaining('Invalid regex `(unclosed`')]);
+  });
+
+  it('rejects a file that is not a mapping of settings', () => {
+    const file = writeConfig('config.yaml', '- just\n- a list\n');
+
+    expect(problemsFor(TEST_ENV, file)).toEqual([expect.stringContaining('the top level must be a mapping of settings')]);
+  });
+});
+
+describe('ConfigService.reload', () => {
+  const originalEnv = process.env;
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('applies new settings but keeps restart-only sections', () => {
+    const service = new ConfigService(loadConfig(TEST_ENV, null));
+    process.env = { ...TEST_ENV, BACKFILL_ANNOUNCE_LIMIT: '4', DISCORD_TOKEN: 'rotated', HEALTH_PORT: '9090' };
+
+    expect(service.reload()).toBe(true);
+    expect(service.current.truthSocial.announceLimit).toBe(4);
+    expect(service.current.discord.token).toBe('test-token');
+    expect(service.current.health.port).toBe(8080);
+  });
+
+  it('keeps the current settings when the new ones are invalid', () => {
+    const service = new ConfigService(loadConfig(TEST_ENV, null));
+    process.env = { ...TEST_ENV, BACKFILL_ANNOUNCE_LIMIT: 'lots' };
+
+    expect(service.reload()).toBe(false);
+    expect(service.current.truthSocial.announceLimit).toBe(10);
+  });
+});
@@ -0,0 +1,32 @@
+import { discordTimestamp, formatDateForDisplay, isValidLocale, isValidTimeZone } from '../src/dateFormat';
+
+const DATE = '2025-01-04T14:30:00.000Z';
+
+describe('formatDateForDisplay', () => {
+  it('keeps the US Eastern 12-hour format by default', () => {
+    expect(formatDateForDisplay(DATE)).toBe('Sat, Jan 4, 2025, 09:30 AM EST');
+  });
+
+  it('writes the date in the channel\'s time zone, locale and clock', () => {
+    expect(formatDateForDisplay(DATE, { timeZone: 'Europe/London', locale: 'en-GB', clock: '24h' })).toBe('Sat, 4 Jan 2025, 14:30 GMT');
+    expect(formatDateForDisplay(DATE, { timeZone: 'Europe/Berlin', locale: 'de-DE', clock: '24h' })).toBe('Sa., 4. Jan. 2025, 15:30 MEZ');
+    expect(formatDateForDisplay(DATE, { timeZone: 'America/New_York', locale: 'en-US', clock: '24h' })).toBe('Sat, Jan 4, 2025, 09:30 EST');
+  });
+});
+
+describe('discordTimestamp', () => {
+  it('uses whole Unix seconds', () => {
+    expect(discordTimestamp(DATE, 'F')).toBe('<t:1736001000:F>');
+    expect(discordTimestamp(new Date('2025-01-04T14:30:00.999Z'), 'R')).toBe('<t:1736001000:R>');
+  });
+});
+
+describe('isValidTimeZone and isValidLocale', () => {
+  it('accept IANA zones and supported locales only', () => {
+    expect(isValidTimeZone('Asia/Tokyo')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+    expect(isValidLocale('de-DE')).toBe(true);
+    expect(isValidLocale('xx-YY')).toBe(false);
+    expect(isValidLocale('not a locale')).toBe(false);
+  });
+});
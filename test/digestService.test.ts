@@ -0,0 +1,119 @@
+import { DigestService } from '../src/digestService';
+import { mapApiPost } from '../src/postSource';
+import { LINK_CARD, VANCE_ACCOUNT, apiPost, imageAttachment, videoAttachment } from './fixtures/truthSocialApi';
+import { createTestServices } from './support/harness';
+
+const DAILY_CHANNEL = '111111111111111111';
+const WEEKLY_CHANNEL = '222222222222222222';
+const REALTIME_CHANNEL = '333333333333333333';
+
+describe('DigestService', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-01-04T14:30:00.000Z') });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  const setup = async (overrides: Parameters<typeof createTestServices>[0] = {}) => {
+    const services = createTestServices(overrides);
+    const { db, config, discord } = services;
+    await db.subscribe(DAILY_CHANNEL, { delivery: 'digest' });
+    await db.subscribe(WEEKLY_CHANNEL, { delivery: 'both', digestSchedule: 'weekly' });
+    await db.subscribe(REALTIME_CHANNEL);
+    await db.archivePosts([
+      mapApiPost(apiPost('100', { minutesAgo: 3 * 24 * 60, content: '<p>Three days ago</p>' })),
+      mapApiPost(apiPost('101', { minutesAgo: 120, content: '<p>Tariffs are coming</p>', favourites_count: 500 })),
+      mapApiPost(apiPost('102', { minutesAgo: 60, media_attachments: [imageAttachment('photo')], card: LINK_CARD })),
+      mapApiPost(apiPost('103', { minutesAgo: 30, account: VANCE_ACCOUNT, media_attachments: [videoAttachment('clip', 30)] }))
+    ]);
+    return { ...services, digestService: new DigestService(config, db, discord) };
+  };
+
+  // The embed sent to one channel, as plain data
+  const digestFor = (discord: ReturnType<typeof createTestServices>['discord'], channelId: string) =>
+    discord.ofKind('embed').find(message => message.channelId === channelId)?.embed.data;
+
+  it('sends each schedule only to the channels that chose it', async () => {
+    const { discord, digestService } = await setup();
+
+    await digestService.sendDigests('daily');
+
+    expect(discord.ofKind('embed').map(message => message.channelId)).toEqual([DAILY_CHANNEL]);
+    expect(digestFor(discord, DAILY_CHANNEL)!.title).toBe('🗞️ Daily Truth Social digest');
+
+    await digestService.sendDigests('weekly');
+
+    expect(discord.ofKind('embed').map(message => message.channelId)).toEqual([DAILY_CHANNEL, WEEKLY_CHANNEL]);
+    expect(digestFor(discord, WEEKLY_CHANNEL)!.title).toBe('🗞️ Weekly Truth Social digest');
+  });
+
+  it('summarizes the period\'s posts, accounts, top posts, media and links', async () => {
+    const { discord, digestService } = await setup();
+
+    await digestService.sendDigests('daily');
+    await digestService.sendDigests('weekly');
+
+    const daily = digestFor(discord, DAILY_CHANNEL)!;
+    expect(daily.description).toMatch(/^\*\*3\*\* posts from @JDVance, @realDonaldTrump\n/);
+    const field = (name: string) => daily.fields!.find(candidate => candidate.name.includes(name))!.value;
+    expect(field('Top posts').split('\n')[0]).toBe('1. [Tariffs are coming](https://truthsocial.com/@realDonaldTrump/101) ❤️ 500 · 🔁 20');
+    expect(field('Media')).toBe('🖼️ 1 with images · 📹 1 with video · 📝 1 text only · 🔁 0 ReTruths');
+    expect(field('Shared links')).toBe(`• [${LINK_CARD.title}](${LINK_CARD.url})`);
+
+    expect(digestFor(discord, WEEKLY_CHANNEL)!.description).toMatch(/^\*\*4\*\* posts/);
+  });
+
+  it('counts hours in DIGEST_TIMEZONE unless the channel picked its own', async () => {
+    const { db, discord, digestService } = await setup();
+    await db.setSubscriptionDateFormat(WEEKLY_CHANNEL, { timeZone: 'Europe/London' });
+
+    await digestService.sendDigests('daily');
+    await digestService.sendDigests('weekly');
+
+    const hours = (channelId: string) => {
+      const field = digestFor(discord, channelId)!.fields!.find(candidate => candidate.name.startsWith('📈'))!;
+      return { name: field.name, busyHours: field.value.split('\n').filter(row => /\d$/.test(row)).map(row => row.slice(0, 2)) };
+    };
+    expect(hours(DAILY_CHANNEL)).toEqual({ name: '📈 Activity by hour (America/New_York)', busyHours: ['07', '08', '09'] });
+    expect(hours(WEEKLY_CHANNEL).name).toBe('📈 Activity by hour (Europe/London)');
+    expect(hours(WEEKLY_CHANNEL).busyHours).toEqual(['12', '13', '14']);
+  });
+
+  it('applies the global and each channel\'s filter', async () => {
+    const { db, discord, digestService } = await setup({ filter: { excludeKeywords: ['tariffs'] } });
+    await db.setSubscriptionFilter(DAILY_CHANNEL, { textOnly: true });
+
+    await digestService.sendDigests('daily');
+
+    expect(digestFor(discord, DAILY_CHANNEL)!.description).toMatch(/^No posts between /);
+
+    await db.setSubscriptionFilter(DAILY_CHANNEL, { hasMedia: true });
+    await digestService.sendDigests('daily');
+
+    expect(discord.ofKind('embed')[1].embed.data.description).toMatch(/^\*\*2\*\* posts from @JDVance, @realDonaldTrump\n/);
+  });
+
+  it('says so when there was nothing to summarize', async () => {
+    const { db, discord, digestService } = await setup();
+    db.archive.clear();
+
+    await digestService.sendDigests('daily');
+
+    expect(digestFor(discord, DAILY_CHANNEL)!.description).toMatch(/^No posts between /);
+  });
+
+  it('still sends to the other channels when one of them fails', async () => {
+    const { db, discord, digestService } = await setup();
+    await db.setSubscriptionDelivery(WEEKLY_CHANNEL, 'digest', 'daily');
+    discord.failingChannels.set(DAILY_CHANNEL, new Error('Missing Access'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await digestService.sendDigests('daily');
+
+    expect(discord.ofKind('embed').map(message => message.channelId)).toEqual([WEEKLY_CHANNEL]);
+  });
+});
@@ -0,0 +1,220 @@
+import { buildTruthSocialEmbeds, splitPostText } from '../src/embeds';
+import { mapApiPost } from '../src/postSource';
+import { LINK_CARD, VANCE_ACCOUNT, apiPost, imageAttachment, quoteOf, replyTo, repostOf, videoAttachment } from './fixtures/truthSocialApi';
+
+const fieldNames = (embed: { data: { fields?: { name: string }[] } }) => (embed.data.fields ?? []).map(field => field.name);
+
+describe('buildTruthSocialEmbeds', () => {
+  it('renders a text post as a single embed', () => {
+    const post = mapApiPost(apiPost('100', { content: '<p>Make America <b>Great</b> Again!</p>' }));
+
+    const embeds = buildTruthSocialEmbeds(post);
+
+    expect(embeds).toHaveLength(1);
+    expect(embeds[0].data).toMatchObject({
+      title: '📢 New Truth Social Post from Donald J. Trump',
+      url: post.url,
+      description: 'Make America Great Again!',
+      author: { name: 'Donald J. Trump (@realDonaldTrump)' }
+    });
+    expect(embeds[0].data.image).toBeUndefined();
+    expect(fieldNames(embeds[0])).toEqual(['🕒 Posted', '🔗 Source', '📊 Engagement']);
+  });
+
+  it('shows the post time in each reader\'s local time and in the channel\'s format', () => {
+    const post = mapApiPost(apiPost('100', { created_at: '2025-01-04T14:30:00.000Z' }));
+
+    const [embed] = buildTruthSocialEmbeds(post, 'new', 'normal', { timeZone: 'Europe/Berlin', locale: 'de-DE', clock: '24h' });
+
+    expect(embed.data.fields?.[0]).toEqual({ name: '🕒 Posted', value: '<t:1736001000:F>\n<t:1736001000:R>', inline: true });
+    expect(embed.data.footer?.text).toBe('Truth Social • Sa., 4. Jan. 2025, 15:30 MEZ');
+  });
+
+  it('groups up to four images into a gallery and links the rest', () => {
+    const images = ['a', 'b', 'c', 'd', 'e', 'f'].map(imageAttachment);
+    const post = mapApiPost(apiPost('100', { media_attachments: images }));
+
+    const embeds = buildTruthSocialEmbeds(post);
+
+    expect(embeds.map(embed => embed.data.image?.url)).toEqual(images.slice(0, 4).map(image => image.url));
+    // Discord only merges embeds into one gallery when they share a URL
+    expect(new Set(embeds.map(embed => embed.data.url))).toEqual(new Set([post.url]));
+    expect(embeds[0].data.fields).toContainEqual(expect.objectContaining({
+      name: '🖼️ More images',
+      value: `[+2 more on Truth Social](${post.url})`
+    }));
+  });
+
+  it('links videos with their length and shows the preview frame', () => {
+    const video = videoAttachment('clip', 125);
+    const post = mapApiPost(apiPost('100', { media_attachments: [video] }));
+
+    const [embed] = buildTruthSocialEmbeds(post);
+
+    expect(embed.data.fields?.[0]).toEqual({
+      name: '📹 Click to view video (2:05)',
+      value: `[${video.url}](${video.url})`,
+      inline: false
+    });
+    expect(embed.data.image?.url).toBe(video.preview_url);
+  });
+
+  it('numbers multiple videos and prefers an image over a preview frame', () => {
+    const image = imageAttachment('photo');
+    const post = mapApiPost(apiPost('100', {
+      media_attachments: [videoAttachment('one', 30), videoAttachment('two', 61), image]
+    }));
+
+    const [embed] = buildTruthSocialEmbeds(post);
+
+    expect(fieldNames(embed).slice(0, 2)).toEqual(['📹 Video 1 (0:30)', '📹 Video 2 (1:01)']);
+    expect(embed.data.image?.url).toBe(image.url);
+  });
+
+  it('shows a link card with its image as the thumbnail', () => {
+    const post = mapApiPost(apiPost('100', { card: LINK_CARD }));
+
+    const [embed] = buildTruthSocialEmbeds(post);
+
+    expect(embed.data.fields?.[0]).toEqual({
+      name: '🔗 Presidential Actions',
+      value: `[The White House](${LINK_CARD.url})\nAn executive order on something important.`,
+      inline: false
+    });
+    expect(embed.data.thumbnail?.url).toBe(LINK_CARD.image);
+  });
+
+  it('falls back to the card hostname when there is no provider name', () => {
+    const post = mapApiPost(apiPost('100', { card: { url: 'https://example.com/story', title: 'A story' } }));
+
+    const [embed] = buildTruthSocialEmbeds(post);
+
+    expect(embed.data.fields?.[0].value).toBe('[example.com](https://example.com/story)');
+    expect(embed.data.thumbnail).toBeUndefined();
+  });
+
+  it('styles breaking posts and changed posts', () => {
+    const post = mapApiPost(apiPost('100'));
+
+    expect(buildTruthSocialEmbeds(post, 'new', 'breaking')[0].data.title).toBe('🚨 BREAKING Truth Social Post from Donald J. Trump');
+    expect(buildTruthSocialEmbeds(post, 'edited', 'breaking')[0].data.title).toBe('✏️ Edited Truth Social Post from Donald J. Trump');
+
+    const [deleted] = buildTruthSocialEmbeds(post, 'deleted');
+    expect(deleted.data.title).toBe('🗑️ Deleted Truth Social Post from Donald J. Trump');
+    expect(fieldNames(deleted)).toContain('🗑️ Deleted');
+  });
+
+  it('shows a ReTruth under the original author with the original counts', () => {
+    const original = apiPost('90', { account: VANCE_ACCOUNT, content: '<p>Great rally</p>', favourites_count: 5000 });
+    const post = mapApiPost(repostOf('100', original));
+
+    const [embed] = buildTruthSocialEmbeds(post);
+
+    expect(embed.data).toMatchObject({
+      title: '🔁 ReTruth from Donald J. Trump',
+      description: 'Great rally',
+      author: { name: 'JD Vance (@JDVance)', url: VANCE_ACCOUNT.url }
+    });
+    expect(embed.data.fields).toContainEqual(expect.objectContaining({ name: '📊 Engagement', value: '💬 10 · 🔁 20 · ❤️ 5,000' }));
+  });
+
+  it('nests the quoted post in its own embed', () => {
+    const quoted = apiPost('90', { account: VANCE_ACCOUNT, content: '<p>Big news</p>', media_attachments: [imageAttachment('quoted')] });
+    const post = mapApiPost(quoteOf('100', quoted, 'So true!'));
+
+    const embeds = buildTruthSocialEmbeds(post);
+
+    expect(embeds).toHaveLength(2);
+    expect(embeds[0].data).toMatchObject({ title: '💬 Quote Post from Donald J. Trump', description: 'So true!' });
+    expect(embeds[1].data).toMatchObject({
+      author: { name: '💬 Quoting JD Vance (@JDVance)' },
+      url: quoted.url,
+      description: 'Big news',
+      image: { url: imageAttachment('quoted').url }
+    });
+  });
+
+  it('says so when the quoted post is not available', () => {
+    const post = mapApiPost(apiPost('100', { quote_id: '90' }));
+
+    const embeds = buildTruthSocialEmbeds(post);
+
+    expect(embeds).toHaveLength(1);
+    expect(embeds[0].data.fields).toContainEqual(expect.objectContaining({ name: '💬 Quoting', value: 'The quoted post is not available.' }));
+  });
+
+  it('links the post a reply answers, with a snippet when it is known', () => {
+    const parent = apiPost('90', { account: VANCE_ACCOUNT, content: '<p>Will you   be there?</p>' });
+    const post = mapApiPost(replyTo('100', parent, 'Yes!'));
+
+    expect(buildTruthSocialEmbeds(post)[0].data).toMatchObject({ title: '↩️ Reply from Donald J. Trump' });
+    expect(buildTruthSocialEmbeds(post)[0].data.fields?.[0]).toEqual({
+      name: '↩️ Replying to',
+      value: `[@JDVance](${parent.url})`,
+      inline: false
+    });
+
+    post.inReplyTo = { ...post.inReplyTo!, post: mapApiPost(parent) };
+    expect(buildTruthSocialEmbeds(post)[0].data.fields?.[0].value).toBe(`[JD Vance (@JDVance)](${parent.url})\n> Will you be there?`);
+  });
+
+  it('keeps the BREAKING title for urgent posts of any kind', () => {
+    const post = mapApiPost(repostOf('100', apiPost('90')));
+
+    expect(buildTruthSocialEmbeds(post, 'new', 'breaking')[0].data.title).toBe('🚨 BREAKING Truth Social Post from Donald J. Trump');
+  });
+
+  it('renders the post HTML as Discord markdown', () => {
+    const post = mapApiPost(apiPost('100', {
+      content: '<p>Thank you <span class="h-card"><a href="https://truthsocial.com/@JDVance" class="u-url mention">@<span>JDVance</span></a></span> &amp; *team*</p><p>See you soon!</p>'
+    }));
+
+    const [embed] = buildTruthSocialEmbeds(post);
+
+    expect(post.content).toBe('Thank you @JDVance & *team*\n\nSee you soon!');
+    expect(embed.data.description).toBe('Thank you [@JDVance](https://truthsocial.com/@JDVance) & \\*team\\*\n\nSee you soon!');
+  });
+
+  it('continues long posts in extra embeds within the message limit', () => {
+    const paragraphs = Array.from({ length: 30 }, (_, index) => `<p>${`Paragraph ${index} `.repeat(20).trim()}</p>`);
+    const post = mapApiPost(apiPost('100', { content: paragraphs.join(''), media_attachments: [imageAttachment('a'), imageAttachment('b')] }));
+
+    const embeds = buildTruthSocialEmbeds(post);
+    const [main, gallery, ...continued] = embeds;
+    const total = embeds.reduce((sum, embed) => sum + JSON.stringify([
+      embed.data.title, embed.data.description, embed.data.footer?.text, embed.data.author?.name, embed.data.fields
+    ]).length, 0);
+
+    expect(gallery.data.image?.url).toBe(imageAttachment('b').url);
+    expect(continued.length).toBeGreaterThan(0);
+    expect(continued.every(embed => embed.data.url === undefined)).toBe(true);
+    expect(main.data.description!.length).toBeLessThanOrEqual(4096);
+    expect(main.data.description).toMatch(/Paragraph \d+$/);
+    expect(continued.at(-1)!.data.description).toMatch(new RegExp(`\\[Read the full post on Truth Social\\]\\(${post.url}\\)$`));
+    // A generous upper bound, JSON adds quotes and field punctuation
+    expect(total).toBeLessThan(6000 + 200);
+  });
+});
+
+describe('splitPostText', () => {
+  const url = 'https://truthsocial.com/@realDonaldTrump/100';
+
+  it('leaves text that fits alone', () => {
+    expect(splitPostText('Short post', 6000, url)).toEqual(['Short post']);
+    expect(splitPostText('   ', 6000, url)).toEqual([]);
+  });
+
+  it('splits at paragraph breaks into descriptions of at most 4096 characters', () => {
+    const text = ['a'.repeat(3000), 'b'.repeat(3000)].join('\n\n');
+
+    expect(splitPostText(text, 10000, url)).toEqual(['a'.repeat(3000), 'b'.repeat(3000)]);
+  });
+
+  it('cuts at a word and links the full post when the budget runs out', () => {
+    const chunks = splitPostText('word '.repeat(2000), 5000, url);
+
+    expect(chunks.join('').length).toBeLessThanOrEqual(5000);
+    expect(chunks.every(chunk => chunk.length <= 4096)).toBe(true);
+    expect(chunks.at(-1)).toMatch(/word\n\n… \[Read the full post on Truth Social\]\(.+\)$/);
+  });
+});
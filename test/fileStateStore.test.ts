@@ -0,0 +1,121 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileStateStore } from '../src/fileStateStore';
+import { mapApiPost } from '../src/postSource';
+import { migrateState } from '../src/stateStore';
+import { apiPost } from './fixtures/truthSocialApi';
+import { InMemoryStateStore } from './support/inMemoryStateStore';
+
+const CHANNEL = '111111111111111111';
+
+describe('FileStateStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trump-tracker-state-'));
+    file = path.join(dir, 'data', 'state.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function openStore(): Promise<FileStateStore> {
+    const store = new FileStateStore(file);
+    await store.connect();
+    return store;
+  }
+
+  it('starts empty and keeps its state across restarts', async () => {
+    const store = await openStore();
+    expect(store.isInitialized).toBe(true);
+
+    await store.updateLastSeenTruthSocialPost('realDonaldTrump', '102');
+    await store.addSubscription('guild-1', CHANNEL, 'user-1', 'both');
+    await store.setSubscriptionFilter(CHANNEL, { excludeReplies: true });
+    await store.enqueueOutboxItems(mapApiPost(apiPost('102')), [{ channelId: CHANNEL }]);
+    await store.archivePosts([mapApiPost(apiPost('101', { content: '<p>Tariffs on China</p>' })), mapApiPost(apiPost('102'))]);
+
+    const reopened = await openStore();
+    expect(await reopened.getLastSeenTruthSocialPost('REALDONALDTRUMP')).toBe('102');
+    expect(await reopened.getSubscription(CHANNEL)).toMatchObject({ delivery: 'both', filter: { excludeReplies: true } });
+    expect((await reopened.getPendingOutboxItems()).map(item => item._id)).toEqual([`outbox:102:${CHANNEL}`]);
+    expect((await reopened.searchArchivedPosts('tariff')).map(doc => doc.post.id)).toEqual(['101']);
+  });
+
+  it('does not hand out its own copies of documents', async () => {
+    const store = await openStore();
+    await store.enqueueOutboxItems(mapApiPost(apiPost('100')), [{ channelId: CHANNEL }]);
+
+    const [item] = await store.getPendingOutboxItems();
+    item.status = 'delivered';
+
+    expect(await store.getPendingOutboxItems()).toHaveLength(1);
+  });
+
+  it('records an engagement snapshot whenever the counts of a young post change', async () => {
+    const store = await openStore();
+    const withCounts = (id: string, favourites: number, minutesAgo = 5) =>
+      mapApiPost(apiPost(id, { favourites_count: favourites, minutesAgo }));
+
+    await store.archivePosts([withCounts('100', 10), withCounts('101', 10, 25 * 60)]);
+    await store.archivePosts([withCounts('100', 10), withCounts('101', 10, 25 * 60)]);
+    await store.archivePosts([withCounts('100', 25), withCounts('101', 25, 25 * 60)]);
+
+    const young = await store.getArchivedPost('100');
+    expect(young!.engagement.map(snapshot => snapshot.favourites)).toEqual([10, 25]);
+    expect(young!.engagement[0]).toEqual({ at: expect.any(String), replies: 10, reblogs: 20, favourites: 10 });
+    // Past the first day only the latest counts are kept on the post itself
+    const old = await store.getArchivedPost('101');
+    expect(old!.engagement).toEqual([]);
+    expect(old!.post.favouritesCount).toBe(25);
+  });
+
+  it('leaves an unreadable file alone and stays unavailable', async () => {
+    fs.mkdirSync(path.dirname(file));
+    fs.writeFileSync(file, '{ not json');
+
+    const store = await openStore();
+
+    expect(store.isInitialized).toBe(false);
+    await expect(store.addSubscription('guild-1', CHANNEL, 'user-1')).rejects.toThrow('State file not loaded');
+    await store.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+    expect(fs.readFileSync(file, 'utf8')).toBe('{ not json');
+  });
+});
+
+describe('migrateState', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trump-tracker-state-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('copies every kind of document and replaces ones with the same ID', async () => {
+    const from = new InMemoryStateStore();
+    await from.updateLastSeenTruthSocialPost('realDonaldTrump', '102');
+    await from.updateLastSeenRedditPost('TrumpTracker', 'abc');
+    await from.subscribe(CHANNEL, { mentionRoleId: '444444444444444444' });
+    await from.enqueueOutboxItems(mapApiPost(apiPost('102')), [{ channelId: CHANNEL }]);
+    await from.recordAnnouncedMessage(mapApiPost(apiPost('101')), 'hash', CHANNEL, 'message-1');
+    await from.archivePosts([mapApiPost(apiPost('101')), mapApiPost(apiPost('102'))]);
+
+    const to = new FileStateStore(path.join(dir, 'state.json'));
+    await to.connect();
+    await to.updateLastSeenTruthSocialPost('realDonaldTrump', '90');
+    await to.addSubscription('guild-2', CHANNEL, 'user-2');
+
+    const copied = await migrateState(from, to);
+
+    expect(copied).toBe('1 Truth Social cursors, 1 Reddit cursors, 1 subscriptions, 1 outbox items, 1 announced posts, 2 archived posts');
+    const reopened = new FileStateStore(path.join(dir, 'state.json'));
+    await reopened.connect();
+    expect(await reopened.exportState()).toEqual(await from.exportState());
+  });
+});
@@ -0,0 +1,29 @@
+import { matchesFilterRule, validateFilterRule } from '../src/filterRules';
+import { mapApiPost } from '../src/postSource';
+import { apiPost } from './fixtures/truthSocialApi';
+
+describe('validateFilterRule', () => {
+  it('accepts ordinary patterns', () => {
+    expect(() => validateFilterRule({ includeRegex: ['tariffs?', '\\bchina\\b', '^(make|keep) america'] })).not.toThrow();
+    expect(() => validateFilterRule({ excludeRegex: ['[a-z]+ [0-9]{2,4}', '\\(\\d+\\)', '(ab)+'] })).not.toThrow();
+  });
+
+  it('refuses patterns that can backtrack catastrophically', () => {
+    expect(() => validateFilterRule({ includeRegex: ['(a+)+$'] })).toThrow('repeats a group');
+    expect(() => validateFilterRule({ excludeRegex: ['(a|a)*b'] })).toThrow('repeats a group');
+    expect(() => validateFilterRule({ includeRegex: ['((\\w+\\s?))+!'] })).toThrow('repeats a group');
+    expect(() => validateFilterRule({ includeRegex: ['(a*){2,}'] })).toThrow('repeats a group');
+    expect(() => validateFilterRule({ includeRegex: ['(a)\\1+'] })).toThrow('backreference');
+    expect(() => validateFilterRule({ includeRegex: ['a'.repeat(201)] })).toThrow('longer than 200 characters');
+  });
+});
+
+describe('matchesFilterRule', () => {
+  it('refuses to run unsafe patterns saved before they were checked', () => {
+    const post = mapApiPost(apiPost('100', { content: `<p>${'a'.repeat(40)}!</p>` }));
+
+    const started = Date.now();
+    expect(() => matchesFilterRule(post, { excludeRegex: ['(a+)+$'] })).toThrow('repeats a group');
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
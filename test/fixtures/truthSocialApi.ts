@@ -0,0 +1,91 @@
+import { TruthSocialAccount, TruthSocialApiPost } from '../../src/postSource';
+
+// Responses shaped like the Truth Social (Mastodon) statuses API, which ScrapeCreators passes through
+
+export const TRUMP_ACCOUNT: TruthSocialAccount = {
+  id: '107780257626128497',
+  username: 'realDonaldTrump',
+  display_name: 'Donald J. Trump',
+  verified: true,
+  url: 'https://truthsocial.com/@realDonaldTrump',
+  avatar: 'https://static-assets-1.truthsocial.com/avatars/trump.jpg'
+};
+
+export const VANCE_ACCOUNT: TruthSocialAccount = {
+  id: '108016887536823519',
+  username: 'JDVance',
+  display_name: 'JD Vance',
+  verified: true,
+  url: 'https://truthsocial.com/@JDVance'
+};
+
+// A plain text post, created `minutesAgo` before now so age limits can be exercised
+export function apiPost(id: string, overrides: Partial<TruthSocialApiPost> & { minutesAgo?: number } = {}): TruthSocialApiPost {
+  const { minutesAgo = 5, ...fields } = overrides;
+  const account = fields.account ?? TRUMP_ACCOUNT;
+  return {
+    id,
+    created_at: new Date(Date.now() - minutesAgo * 60 * 1000).toISOString(),
+    uri: `https://truthsocial.com/users/${account.username}/statuses/${id}`,
+    url: `https://truthsocial.com/@${account.username}/${id}`,
+    content: `<p>Post number ${id}</p>`,
+    account,
+    media_attachments: [],
+    card: null,
+    reblog: null,
+    replies_count: 10,
+    reblogs_count: 20,
+    favourites_count: 30,
+    ...fields
+  };
+}
+
+export function imageAttachment(name: string): TruthSocialApiPost['media_attachments'][number] {
+  return {
+    type: 'image',
+    url: `https://static-assets-1.truthsocial.com/media/${name}.jpg`,
+    preview_url: `https://static-assets-1.truthsocial.com/media/small/${name}.jpg`,
+    meta: { original: { width: 1200, height: 800, aspect: 1.5 } }
+  };
+}
+
+export function videoAttachment(name: string, duration: number): TruthSocialApiPost['media_attachments'][number] {
+  return {
+    type: 'video',
+    url: `https://static-assets-1.truthsocial.com/media/${name}.mp4`,
+    preview_url: `https://static-assets-1.truthsocial.com/media/small/${name}.png`,
+    meta: { original: { width: 1920, height: 1080, aspect: 1.78, duration } }
+  };
+}
+
+export const LINK_CARD: NonNullable<TruthSocialApiPost['card']> = {
+  url: 'https://www.whitehouse.gov/presidential-actions/2025/01/example/',
+  title: 'Presidential Actions',
+  description: 'An executive order on something important.',
+  image: 'https://www.whitehouse.gov/wp-content/uploads/card.jpg',
+  provider_name: 'The White House'
+};
+
+// A ReTruth: the wrapper has no text or media of its own, everything is on `reblog`
+export function repostOf(id: string, original: TruthSocialApiPost): TruthSocialApiPost {
+  return apiPost(id, { content: '', reblog: original, replies_count: 0, reblogs_count: 0, favourites_count: 0 });
+}
+
+// A quote post, with the inline "RT:" link Truth Social adds to the HTML
+export function quoteOf(id: string, quoted: TruthSocialApiPost, text: string): TruthSocialApiPost {
+  return apiPost(id, {
+    content: `<p>${text}<span class="quote-inline"><br/>RT: <a href="${quoted.url}">${quoted.url}</a></span></p>`,
+    quote: quoted,
+    quote_id: quoted.id
+  });
+}
+
+// A reply without the parent status, as the statuses endpoint usually returns them
+export function replyTo(id: string, parent: TruthSocialApiPost, text: string): TruthSocialApiPost {
+  return apiPost(id, {
+    content: `<p>${text}</p>`,
+    in_reply_to_id: parent.id,
+    in_reply_to_account_id: parent.account.id,
+    mentions: [{ id: parent.account.id, username: parent.account.username, acct: parent.account.username, url: parent.account.url }]
+  });
+}
@@ -0,0 +1,122 @@
+import { once } from 'events';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { HealthServer } from '../src/healthServer';
+import { createTestServices } from './support/harness';
+
+const MINUTE_MS = 60 * 1000;
+
+// A port nothing is listening on, the health server treats 0 as turned off
+async function freePort(): Promise<number> {
+  const probe = http.createServer().listen(0, '127.0.0.1');
+  await once(probe, 'listening');
+  const { port } = probe.address() as AddressInfo;
+  await new Promise(resolve => probe.close(resolve));
+  return port;
+}
+
+describe('HealthServer', () => {
+  let server: http.Server | null = null;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    if (server) await new Promise(resolve => server!.close(resolve));
+    server = null;
+  });
+
+  const setup = async () => {
+    const port = await freePort();
+    const services = createTestServices({ health: { port, stalePollMinutes: 90 } });
+    const { config, db, discord, truthSocialService, metrics } = services;
+    server = new HealthServer(config, db, discord, truthSocialService, metrics).start();
+    await once(server!, 'listening');
+
+    const get = (path: string) => new Promise<{ status: number; type: string; body: string }>((resolve, reject) => {
+      http.get({ host: '127.0.0.1', port, path }, res => {
+        let body = '';
+        res.on('data', chunk => body += chunk);
+        res.on('end', () => resolve({ status: res.statusCode!, type: String(res.headers['content-type']), body }));
+      }).on('error', reject);
+    });
+    const health = async () => {
+      const { status, body } = await get('/healthz');
+      return { httpStatus: status, ...JSON.parse(body) };
+    };
+
+    return { ...services, get, health };
+  };
+
+  describe('/healthz', () => {
+    it('is healthy after a recent poll with Discord and the store up', async () => {
+      const { truthSocialService, get } = await setup();
+      truthSocialService.lastSuccessfulPollAt = new Date(Date.now() - 10 * MINUTE_MS);
+
+      const { status, body } = await get('/healthz');
+
+      expect(status).toBe(200);
+      expect(JSON.parse(body)).toEqual({
+        status: 'ok',
+        discord: { ready: true },
+        database: { initialized: true },
+        polling: { lastSuccessfulPollAt: truthSocialService.lastSuccessfulPollAt.toISOString(), healthy: true }
+      });
+    });
+
+    it('turns unhealthy once the last successful poll is older than HEALTH_STALE_POLL_MINUTES', async () => {
+      const { truthSocialService, health } = await setup();
+      truthSocialService.lastSuccessfulPollAt = new Date(Date.now() - 91 * MINUTE_MS);
+
+      expect(await health()).toMatchObject({ httpStatus: 503, polling: { healthy: false } });
+    });
+
+    it('gives a fresh start the same grace period before the first poll', async () => {
+      const { health } = await setup();
+      const startedAt = Date.now();
+
+      expect(await health()).toMatchObject({ httpStatus: 200, polling: { lastSuccessfulPollAt: null, healthy: true } });
+
+      jest.spyOn(Date, 'now').mockReturnValue(startedAt + 91 * MINUTE_MS);
+      expect(await health()).toMatchObject({ httpStatus: 503, polling: { healthy: false } });
+    });
+
+    it('is unhealthy while Discord or the store is down', async () => {
+      const { db, discord, health } = await setup();
+
+      discord.ready = false;
+      expect(await health()).toMatchObject({ httpStatus: 503, discord: { ready: false }, polling: { healthy: true } });
+
+      discord.ready = true;
+      db.isInitialized = false;
+      expect(await health()).toMatchObject({ httpStatus: 503, database: { initialized: false } });
+    });
+  });
+
+  it('is ready only with Discord and the store up', async () => {
+    const { db, get } = await setup();
+
+    expect(await get('/readyz')).toMatchObject({ status: 200, body: 'ok\n' });
+
+    db.isInitialized = false;
+    expect(await get('/readyz')).toMatchObject({ status: 503, body: 'not ready\n' });
+  });
+
+  it('serves the metrics in the Prometheus text format', async () => {
+    const { metrics, get } = await setup();
+    metrics.polls.inc({ source: 'Fake', result: 'success' });
+
+    const response = await get('/metrics');
+
+    expect(response).toMatchObject({ status: 200, type: 'text/plain; version=0.0.4' });
+    expect(response.body).toContain('trump_tracker_polls_total{result="success",source="Fake"} 1\n');
+  });
+
+  it('answers anything else with 404', async () => {
+    const { get } = await setup();
+
+    expect((await get('/')).status).toBe(404);
+  });
+});
@@ -0,0 +1,119 @@
+import cron from 'node-cron';
+import { AdaptivePoller } from '../src/adaptivePoller';
+import { DigestService } from '../src/digestService';
+import { RedditService } from '../src/redditService';
+import { Scheduler } from '../src/scheduler';
+import { createTestServices } from './support/harness';
+
+jest.mock('node-cron', () => ({ schedule: jest.fn(), validate: () => true }));
+
+const ADMIN = '333333333333333333';
+const ADMIN_CHANNEL = '444444444444444444';
+
+describe('IncidentTracker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-01-04T12:00:00.000Z') });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  const alertTitles = (discord: ReturnType<typeof createTestServices>['discord']) =>
+    discord.sent.flatMap(message => message.kind === 'direct' || message.kind === 'embed' ? [message.embed.data.title] : []);
+
+  it('alerts once while an incident stays open, and once when it recovers', async () => {
+    const { discord, incidents } = createTestServices({ admin: { userIds: [ADMIN] } });
+
+    await incidents.raise('database', 'The database is unavailable', 'first');
+    await incidents.raise('database', 'The database is unavailable', 'second');
+    jest.advanceTimersByTime(90 * 60 * 1000);
+    await incidents.resolve('database');
+    await incidents.resolve('database');
+
+    expect(alertTitles(discord)).toEqual(['🔴 The database is unavailable', '✅ Recovered: The database is unavailable']);
+    const recovery = discord.ofKind('direct')[1].embed.data;
+    expect(recovery.description).toBe('Recovered after 1h 30m.');
+    expect(recovery.fields).toEqual(expect.arrayContaining([
+      expect.objectContaining({ name: 'Occurrences', value: '2' }),
+      expect.objectContaining({ name: 'Last error', value: 'second' })
+    ]));
+  });
+
+  it('tells the admin channel and every admin, even when one of them can\'t be reached', async () => {
+    const { discord, incidents } = createTestServices({ admin: { channelId: ADMIN_CHANNEL, userIds: [ADMIN, '555555555555555555'] } });
+    discord.failingChannels.set(ADMIN, new Error('Cannot send messages to this user'));
+
+    await incidents.raise('database', 'The database is unavailable', 'detail');
+
+    expect(discord.ofKind('embed').map(message => message.channelId)).toEqual([ADMIN_CHANNEL]);
+    expect(discord.ofKind('direct').map(message => message.userId)).toEqual(['555555555555555555']);
+  });
+
+  it('announces an incident on the next report when nobody could be told the first time', async () => {
+    const { discord, incidents } = createTestServices({ admin: { userIds: [ADMIN] } });
+    discord.ready = false;
+
+    await incidents.raise('database', 'The database is unavailable', 'detail');
+    discord.ready = true;
+    await incidents.raise('database', 'The database is unavailable', 'detail');
+    await incidents.raise('database', 'The database is unavailable', 'detail');
+
+    expect(alertTitles(discord)).toEqual(['🔴 The database is unavailable']);
+  });
+
+  it('resolves quietly when the incident was never announced', async () => {
+    const { discord, incidents } = createTestServices({ admin: { userIds: [ADMIN] } });
+    discord.ready = false;
+    await incidents.raise('database', 'The database is unavailable', 'detail');
+    discord.ready = true;
+
+    await incidents.resolve('database');
+
+    expect(discord.sent).toEqual([]);
+  });
+
+  describe('database', () => {
+    // The scheduler wired to the test services, with the every-minute database check to run by hand
+    const setup = () => {
+      const services = createTestServices({ admin: { userIds: [ADMIN] } });
+      const { config, db, discord, outbox, truthSocialService, incidents } = services;
+      const poller = new AdaptivePoller(config, db, truthSocialService);
+      // Polling has nothing to do with it
+      jest.spyOn(poller, 'start').mockImplementation(() => {});
+      const scheduler = new Scheduler(
+        poller,
+        outbox,
+        new RedditService(config, db, discord),
+        new DigestService(config, db, discord),
+        db,
+        incidents
+      );
+      scheduler.start();
+      const [, checkDatabase] = jest.mocked(cron.schedule).mock.calls.find(([expression]) => expression === '* * * * *')!;
+      return { ...services, checkDatabase: checkDatabase as () => Promise<void> };
+    };
+
+    it('opens an incident only once the store has been down past the grace period, and closes it when it is back', async () => {
+      const { db, discord, checkDatabase } = setup();
+      db.isInitialized = false;
+
+      jest.advanceTimersByTime(60 * 1000);
+      await checkDatabase();
+      expect(alertTitles(discord)).toEqual([]);
+
+      jest.advanceTimersByTime(2 * 60 * 1000);
+      await checkDatabase();
+      await checkDatabase();
+      expect(alertTitles(discord)).toEqual(['🔴 The database is unavailable']);
+
+      db.isInitialized = true;
+      await checkDatabase();
+      await checkDatabase();
+      expect(alertTitles(discord)).toEqual(['🔴 The database is unavailable', '✅ Recovered: The database is unavailable']);
+    });
+  });
+});
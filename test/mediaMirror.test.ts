@@ -0,0 +1,177 @@
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { MediaMirror, keepMirroredMedia } from '../src/mediaMirror';
+import { mapApiPost } from '../src/postSource';
+import { TruthSocialPost } from '../src/types';
+import { apiPost, imageAttachment, videoAttachment } from './fixtures/truthSocialApi';
+import { createTestConfig, createTestServices } from './support/harness';
+
+const CHANNEL = '111111111111111111';
+
+const PHOTO = Buffer.from('fake jpeg bytes');
+const CLIP = Buffer.from('fake mp4 bytes');
+const HALF_MEGABYTE = Buffer.alloc(600 * 1024, 1);
+const TWO_MEGABYTES = Buffer.alloc(2 * 1024 * 1024, 1);
+
+// Stands in for the Truth Social media CDN
+const FILES: Record<string, { type: string; body: Buffer }> = {
+  '/photo.jpg': { type: 'image/jpeg', body: PHOTO },
+  '/clip.mp4': { type: 'video/mp4', body: CLIP },
+  '/half-a.jpg': { type: 'image/jpeg', body: HALF_MEGABYTE },
+  '/half-b.jpg': { type: 'image/jpeg', body: HALF_MEGABYTE },
+  '/huge.jpg': { type: 'image/jpeg', body: TWO_MEGABYTES },
+  '/login.jpg': { type: 'text/html; charset=utf-8', body: Buffer.from('<html>Please log in</html>') }
+};
+
+describe('MediaMirror', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: string[];
+  let dir: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req.url ?? '');
+      const file = FILES[req.url ?? ''];
+      if (!file) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': file.type, 'Content-Length': file.body.length }).end(file.body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trump-tracker-media-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createMirror(mirror = true): MediaMirror {
+    return new MediaMirror(createTestConfig({ media: { mirror, maxMegabytes: 1, maxVideoSeconds: 60, archiveDir: dir } }));
+  }
+
+  function image(file: string) {
+    return { ...imageAttachment(file), url: `${baseUrl}/${file}` };
+  }
+
+  function video(file: string, duration: number) {
+    return { ...videoAttachment(file, duration), url: `${baseUrl}/${file}` };
+  }
+
+  function postWith(id: string, media: ReturnType<typeof image>[]): TruthSocialPost {
+    return mapApiPost(apiPost(id, { media_attachments: media }));
+  }
+
+  function archivedFiles(): string[] {
+    return (fs.readdirSync(dir, { recursive: true }) as string[]).filter(file => fs.statSync(path.join(dir, file)).isFile());
+  }
+
+  it('stores images and short videos in the archive under their SHA-256', async () => {
+    const post = postWith('100', [image('photo.jpg'), video('clip.mp4', 30)]);
+
+    const mirrored = await createMirror().mirror(post);
+
+    const [photo, clip] = mirrored.media_attachments!.map(media => media.mirror!);
+    expect(photo).toMatchObject({ contentType: 'image/jpeg', bytes: PHOTO.length, fileName: 'media-1.jpg' });
+    expect(clip).toMatchObject({ contentType: 'video/mp4', bytes: CLIP.length, fileName: 'media-2.mp4' });
+    expect(fs.readFileSync(path.join(dir, photo.sha256.slice(0, 2), `${photo.sha256}.jpg`))).toEqual(PHOTO);
+    expect(fs.readFileSync(path.join(dir, clip.sha256.slice(0, 2), `${clip.sha256}.mp4`))).toEqual(CLIP);
+    // The post that came in is left alone
+    expect(post.media_attachments![0].mirror).toBeUndefined();
+  });
+
+  it('keeps a link for anything it should not or could not copy', async () => {
+    const post = postWith('100', [
+      image('login.jpg'),
+      image('huge.jpg'),
+      video('clip.mp4', 600),
+      image('missing.jpg'),
+      { ...image('photo.jpg'), type: 'audio' }
+    ]);
+
+    const mirrored = await createMirror().mirror(post);
+
+    expect(mirrored.media_attachments!.map(media => media.mirror)).toEqual([undefined, undefined, undefined, undefined, undefined]);
+    expect(mirrored.media_attachments!.map(media => media.url)).toEqual(post.media_attachments!.map(media => media.url));
+    // Long videos and unsupported types are never downloaded
+    expect(requests).toEqual(['/login.jpg', '/huge.jpg', '/missing.jpg']);
+    expect(archivedFiles()).toEqual([]);
+  });
+
+  it('stores a file shared by several posts once', async () => {
+    const mirror = createMirror();
+
+    await mirror.mirror(postWith('100', [image('half-a.jpg')]));
+    await mirror.mirror(postWith('101', [image('half-a.jpg'), image('half-b.jpg')]));
+
+    expect(archivedFiles()).toHaveLength(1);
+  });
+
+  it('does nothing while mirroring is off', async () => {
+    const post = postWith('100', [image('photo.jpg')]);
+
+    expect(await createMirror(false).mirror(post)).toBe(post);
+    expect(requests).toEqual([]);
+  });
+
+  it('uploads copies up to the size cap and points the embeds at them', async () => {
+    const mirror = createMirror();
+    const post = await mirror.mirror(postWith('100', [image('half-a.jpg'), image('half-b.jpg'), video('clip.mp4', 30)]));
+
+    const { post: rendered, files } = await mirror.attachmentsFor(post);
+
+    // Both halves together would pass the 1 MB cap, so the second one stays a link
+    expect(files.map(file => file.name)).toEqual(['media-1.jpg', 'media-3.mp4']);
+    expect(files[1].attachment).toEqual(CLIP);
+    expect(rendered.media_attachments!.map(media => media.url)).toEqual([
+      'attachment://media-1.jpg',
+      `${baseUrl}/half-b.jpg`,
+      `${baseUrl}/clip.mp4`
+    ]);
+    expect(mirror.withUploadedMedia(post)).toEqual(rendered);
+  });
+
+  it('links media whose copy went missing from the archive', async () => {
+    const mirror = createMirror();
+    const post = await mirror.mirror(postWith('100', [image('photo.jpg')]));
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    const { post: rendered, files } = await mirror.attachmentsFor(post);
+
+    expect(files).toEqual([]);
+    expect(rendered.media_attachments![0].url).toBe(`${baseUrl}/photo.jpg`);
+  });
+
+  it('queues posts with their copies so every channel uploads the same files', async () => {
+    const { db, outbox } = createTestServices({ media: { mirror: true, archiveDir: dir } });
+
+    await outbox.enqueue(postWith('100', [image('photo.jpg')]), [{ channelId: CHANNEL }]);
+
+    const [item] = db.outbox.values();
+    expect(item.post.media_attachments![0].mirror).toMatchObject({ bytes: PHOTO.length, fileName: 'media-1.jpg' });
+  });
+});
+
+describe('keepMirroredMedia', () => {
+  it('carries copies over to a re-fetched post by URL', () => {
+    const mirror = { sha256: 'abc', contentType: 'image/jpeg', bytes: 10, fileName: 'media-1.jpg' };
+    const previous = mapApiPost(apiPost('100', { media_attachments: [imageAttachment('a')] }));
+    previous.media_attachments![0].mirror = mirror;
+    const current = mapApiPost(apiPost('100', { media_attachments: [imageAttachment('b'), imageAttachment('a')] }));
+
+    expect(keepMirroredMedia(previous, current).media_attachments!.map(media => media.mirror)).toEqual([undefined, mirror]);
+  });
+});
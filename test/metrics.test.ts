@@ -0,0 +1,57 @@
+import { Counter, Histogram, Metrics } from '../src/metrics';
+
+describe('Metrics', () => {
+  it('renders counters with sorted, escaped labels', () => {
+    const counter = new Counter('test_sends_total', 'Sends by result');
+    counter.inc({ result: 'ok', destination: 'discord' });
+    counter.inc({ destination: 'discord', result: 'ok' }, 2);
+    counter.inc({ destination: 'say "hi"\\\n', result: 'error' });
+
+    expect(counter.render()).toEqual([
+      '# HELP test_sends_total Sends by result',
+      '# TYPE test_sends_total counter',
+      'test_sends_total{destination="discord",result="ok"} 3',
+      'test_sends_total{destination="say \\"hi\\"\\\\\\n",result="error"} 1'
+    ]);
+  });
+
+  it('renders cumulative histogram buckets with +Inf, sum and count', () => {
+    const histogram = new Histogram('test_duration_seconds', 'Time taken', [1, 5]);
+    histogram.observe(0.5, { source: 'Fake' });
+    histogram.observe(3, { source: 'Fake' });
+    histogram.observe(8, { source: 'Fake' });
+    histogram.observe(2);
+
+    expect(histogram.render()).toEqual([
+      '# HELP test_duration_seconds Time taken',
+      '# TYPE test_duration_seconds histogram',
+      'test_duration_seconds_bucket{source="Fake",le="1"} 1',
+      'test_duration_seconds_bucket{source="Fake",le="5"} 2',
+      'test_duration_seconds_bucket{source="Fake",le="+Inf"} 3',
+      'test_duration_seconds_sum{source="Fake"} 11.5',
+      'test_duration_seconds_count{source="Fake"} 3',
+      'test_duration_seconds_bucket{le="1"} 0',
+      'test_duration_seconds_bucket{le="5"} 1',
+      'test_duration_seconds_bucket{le="+Inf"} 1',
+      'test_duration_seconds_sum 2',
+      'test_duration_seconds_count 1'
+    ]);
+  });
+
+  it('renders every metric, each with its HELP and TYPE even before anything was recorded', () => {
+    const metrics = new Metrics();
+    metrics.postsDetected.inc({ account: 'realDonaldTrump' });
+
+    const text = metrics.render();
+
+    expect(text.endsWith('\n')).toBe(true);
+    expect(text.split('\n').filter(line => line.startsWith('# TYPE'))).toEqual([
+      '# TYPE trump_tracker_polls_total counter',
+      '# TYPE trump_tracker_api_errors_total counter',
+      '# TYPE trump_tracker_posts_detected_total counter',
+      '# TYPE trump_tracker_sends_total counter',
+      '# TYPE trump_tracker_poll_duration_seconds histogram'
+    ]);
+    expect(text).toContain('\ntrump_tracker_posts_detected_total{account="realDonaldTrump"} 1\n');
+  });
+});
@@ -0,0 +1,252 @@
+import { createHmac } from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Notifier, formatPostText, notifyWithRetry } from '../src/notifier';
+import { Metrics } from '../src/metrics';
+import { NotifierHub } from '../src/notifiers';
+import { NtfyNotifier } from '../src/ntfyNotifier';
+import { SlackNotifier } from '../src/slackNotifier';
+import { TelegramNotifier } from '../src/telegramNotifier';
+import { mapApiPost } from '../src/postSource';
+import { TruthSocialPost } from '../src/types';
+import { UrgencyClassifier, UrgencyTier } from '../src/urgencyTiers';
+import { WebhookNotifier, signWebhookPayload } from '../src/webhookNotifier';
+import { VANCE_ACCOUNT, apiPost, imageAttachment, quoteOf, replyTo, repostOf } from './fixtures/truthSocialApi';
+import { httpError } from './support/fakePostSource';
+import { createTestConfig } from './support/harness';
+
+const POLICY = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 10 };
+
+// Fails with the queued errors first, then records every post it receives
+class RecordingNotifier implements Notifier {
+  readonly received: { id: string; tier: UrgencyTier }[] = [];
+  attempts = 0;
+
+  constructor(readonly name: string, private errors: unknown[] = []) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async notify(post: TruthSocialPost, tier: UrgencyTier): Promise<void> {
+    this.attempts++;
+    if (this.errors.length > 0) {
+      throw this.errors.shift();
+    }
+    this.received.push({ id: post.id, tier });
+  }
+}
+
+describe('signWebhookPayload', () => {
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    const body = JSON.stringify({ event: 'post.created' });
+    const expected = createHmac('sha256', 'secret').update(`1700000000.${body}`).digest('hex');
+
+    expect(signWebhookPayload('secret', '1700000000', body)).toBe(expected);
+    expect(signWebhookPayload('secret', '1700000001', body)).not.toBe(expected);
+  });
+});
+
+describe('formatPostText', () => {
+  const other = apiPost('90', { account: VANCE_ACCOUNT, content: '<p>Big news</p>' });
+
+  it('names who was reposted, quoted or replied to', () => {
+    expect(formatPostText(mapApiPost(apiPost('100', { content: '<p>Hello</p>' })))).toBe('@realDonaldTrump: Hello');
+    expect(formatPostText(mapApiPost(repostOf('100', other)))).toBe('@realDonaldTrump reposted @JDVance: Big news');
+    expect(formatPostText(mapApiPost(replyTo('100', other, 'Thanks')))).toBe('@realDonaldTrump replying to @JDVance: Thanks');
+    expect(formatPostText(mapApiPost(quoteOf('100', other, 'So true!')))).toBe('@realDonaldTrump: So true!\n\nQuoting @JDVance: Big news');
+  });
+});
+
+describe('notifyWithRetry', () => {
+  const post = mapApiPost(apiPost('100'));
+
+  it('retries server errors and rate limits until the send goes through', async () => {
+    const notifier = new RecordingNotifier('Slack', [httpError(503), httpError(429)]);
+
+    await notifyWithRetry(notifier, POLICY, post, 'normal');
+
+    expect(notifier.attempts).toBe(3);
+    expect(notifier.received).toEqual([{ id: '100', tier: 'normal' }]);
+  });
+
+  it('does not retry a request the service rejected', async () => {
+    const notifier = new RecordingNotifier('Slack', [httpError(400)]);
+
+    await expect(notifyWithRetry(notifier, POLICY, post, 'normal')).rejects.toThrow('status code 400');
+    expect(notifier.attempts).toBe(1);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const notifier = new RecordingNotifier('Slack', [httpError(500), httpError(500), httpError(500)]);
+
+    await expect(notifyWithRetry(notifier, POLICY, post, 'normal')).rejects.toThrow('status code 500');
+    expect(notifier.attempts).toBe(3);
+  });
+});
+
+describe('NotifierHub', () => {
+  it('sends posts in order with their tier, and one failing service does not stop the others', async () => {
+    const working = new RecordingNotifier('Webhook');
+    const broken = new RecordingNotifier('Telegram', [httpError(401)]);
+    const hub = new NotifierHub(
+      [{ notifier: broken, policy: POLICY }, { notifier: working, policy: POLICY }],
+      new UrgencyClassifier(createTestConfig()),
+      new Metrics()
+    );
+
+    hub.enqueue([
+      mapApiPost(apiPost('100', { content: '<p>Good morning</p>' })),
+      mapApiPost(apiPost('101', { content: '<p>URGENT announcement</p>' }))
+    ]);
+    await hub.idle();
+
+    expect(working.received).toEqual([{ id: '100', tier: 'normal' }, { id: '101', tier: 'breaking' }]);
+    expect(broken.received).toEqual([{ id: '101', tier: 'breaking' }]);
+  });
+});
+
+describe('HTTP notifiers', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  // Everything the services received, and the responses to give before answering 200
+  let requests: { url: string; headers: http.IncomingHttpHeaders; body: string }[];
+  let responses: { status: number; headers?: Record<string, string> }[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', () => {
+        requests.push({ url: req.url ?? '', headers: req.headers, body });
+        const { status, headers } = responses.shift() ?? { status: 200 };
+        res.writeHead(status, headers).end('{}');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    responses = [];
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const post = mapApiPost(apiPost('100', { content: '<p>Tariffs & <b>trade</b></p>', media_attachments: [imageAttachment('photo')] }));
+
+  describe('WebhookNotifier', () => {
+    it('posts the post as JSON signed over the timestamp and the exact body', async () => {
+      const notifier = new WebhookNotifier({ url: `${baseUrl}/hook`, secret: 'secret', retry: POLICY });
+
+      await notifier.notify(post, 'breaking');
+
+      const [request] = requests;
+      expect(request.url).toBe('/hook');
+      expect(request.headers['content-type']).toBe('application/json');
+      expect(JSON.parse(request.body)).toEqual({ event: 'post.created', tier: 'breaking', post: JSON.parse(JSON.stringify(post)) });
+      const timestamp = request.headers['x-webhook-timestamp'] as string;
+      expect(request.headers['x-webhook-signature']).toBe(`sha256=${signWebhookPayload('secret', timestamp, request.body)}`);
+    });
+
+    it('leaves the signature out without a secret', async () => {
+      await new WebhookNotifier({ url: baseUrl, secret: '', retry: POLICY }).notify(post, 'normal');
+
+      expect(requests[0].headers['x-webhook-timestamp']).toMatch(/^\d+$/);
+      expect(requests[0].headers).not.toHaveProperty('x-webhook-signature');
+    });
+  });
+
+  describe('SlackNotifier', () => {
+    it('sends escaped mrkdwn blocks with the image and a link back', async () => {
+      await new SlackNotifier({ webhookUrl: `${baseUrl}/slack`, retry: POLICY }).notify(post, 'breaking');
+
+      const heading = '🚨 *BREAKING Truth Social Post*\n@realDonaldTrump: Tariffs &amp; trade';
+      expect(JSON.parse(requests[0].body)).toEqual({
+        text: heading,
+        blocks: [
+          { type: 'section', text: { type: 'mrkdwn', text: heading } },
+          { type: 'image', image_url: post.media_attachments![0].url, alt_text: 'Post image' },
+          { type: 'context', elements: [{ type: 'mrkdwn', text: `<${post.url}|View on Truth Social>` }] }
+        ]
+      });
+    });
+  });
+
+  describe('TelegramNotifier', () => {
+    it('calls sendMessage for the bot with HTML, silently unless the post is breaking', async () => {
+      const notifier = new TelegramNotifier({ botToken: '123:abc', chatId: '@alerts', apiUrl: baseUrl, retry: POLICY });
+
+      await notifier.notify(post, 'normal');
+      await notifier.notify(post, 'breaking');
+
+      expect(requests.map(request => request.url)).toEqual(['/bot123:abc/sendMessage', '/bot123:abc/sendMessage']);
+      const [normal, breaking] = requests.map(request => JSON.parse(request.body));
+      expect(normal).toEqual({
+        chat_id: '@alerts',
+        text: `📢 <b>New Truth Social Post</b>\n\n@realDonaldTrump: Tariffs &amp; trade\n\n<a href="${post.url}">View on Truth Social</a>`,
+        parse_mode: 'HTML',
+        disable_notification: true
+      });
+      expect(breaking.disable_notification).toBe(false);
+    });
+  });
+
+  describe('NtfyNotifier', () => {
+    it('publishes the text with title, priority, tags and a click link', async () => {
+      const notifier = new NtfyNotifier({ url: `${baseUrl}/topic`, token: 'tk_secret', retry: POLICY });
+
+      await notifier.notify(post, 'breaking');
+      await notifier.notify(post, 'normal');
+
+      const [breaking, normal] = requests;
+      expect(breaking.body).toBe('@realDonaldTrump: Tariffs & trade');
+      expect(breaking.headers).toMatchObject({
+        title: 'BREAKING Truth Social Post',
+        priority: 'urgent',
+        tags: 'rotating_light',
+        click: post.url,
+        authorization: 'Bearer tk_secret'
+      });
+      expect(normal.headers).toMatchObject({ title: 'New Truth Social Post', priority: 'default', tags: 'loudspeaker' });
+    });
+  });
+
+  describe('retries against the service', () => {
+    const slack = () => new SlackNotifier({ webhookUrl: baseUrl, retry: POLICY });
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('tries again after a 5xx and a 429, honouring Retry-After', async () => {
+      responses = [{ status: 503 }, { status: 429, headers: { 'Retry-After': '0' } }];
+
+      await notifyWithRetry(slack(), POLICY, post, 'normal');
+
+      expect(requests).toHaveLength(3);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('retrying in 0s'));
+    });
+
+    it('fails with the last error once the attempts run out', async () => {
+      responses = [{ status: 500 }, { status: 502 }, { status: 503 }];
+
+      await expect(notifyWithRetry(slack(), POLICY, post, 'normal')).rejects.toThrow('status code 503');
+      expect(requests).toHaveLength(3);
+    });
+
+    it('does not retry a request the service rejected', async () => {
+      responses = [{ status: 404 }];
+
+      await expect(notifyWithRetry(slack(), POLICY, post, 'normal')).rejects.toThrow('status code 404');
+      expect(requests).toHaveLength(1);
+    });
+  });
+});
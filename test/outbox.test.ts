@@ -0,0 +1,139 @@
+import { Outbox } from '../src/outbox';
+import { mapApiPost } from '../src/postSource';
+import { apiPost } from './fixtures/truthSocialApi';
+import { createTestServices } from './support/harness';
+
+const CHANNEL = '111111111111111111';
+const OTHER_CHANNEL = '222222222222222222';
+
+// Make every pending item due right away instead of waiting out the backoff
+function makeDue(db: ReturnType<typeof createTestServices>['db']): void {
+  for (const item of db.outbox.values()) {
+    item.nextAttemptAt = new Date(0).toISOString();
+  }
+}
+
+describe('Outbox', () => {
+  it('delivers queued posts and records the message for edit tracking', async () => {
+    const { db, discord, outbox } = createTestServices();
+    const post = mapApiPost(apiPost('100'));
+
+    await outbox.enqueue(post, [{ channelId: CHANNEL, mentionRoleId: '444444444444444444' }]);
+    await outbox.processDue();
+
+    expect(discord.ofKind('post')).toEqual([
+      expect.objectContaining({ channelId: CHANNEL, mentionRoleId: '444444444444444444', messageId: 'message-1' })
+    ]);
+    expect(db.announced.get('100')?.messages).toEqual([{ channelId: CHANNEL, messageId: 'message-1' }]);
+  });
+
+  it('retries failed deliveries with a growing delay', async () => {
+    const { db, discord, outbox } = createTestServices({ outbox: { retryDelaySeconds: 30 } });
+    discord.failingChannels.set(CHANNEL, new Error('Missing Access'));
+    await outbox.enqueue(mapApiPost(apiPost('100')), [{ channelId: CHANNEL }]);
+
+    const delays: number[] = [];
+    for (let attempt = 0; attempt < 3; attempt++) {
+      makeDue(db);
+      const before = Date.now();
+      await outbox.processDue();
+      const [item] = db.outbox.values();
+      delays.push(Math.round((new Date(item.nextAttemptAt).getTime() - before) / 1000));
+    }
+
+    expect(delays).toEqual([30, 60, 120]);
+    expect([...db.outbox.values()][0]).toMatchObject({ status: 'pending', attempts: 3, lastError: 'Missing Access' });
+  });
+
+  it('moves an item to dead letters after the last attempt', async () => {
+    const { db, discord, outbox } = createTestServices({ outbox: { maxAttempts: 2 } });
+    discord.failingChannels.set(CHANNEL, new Error('Missing Access'));
+    await outbox.enqueue(mapApiPost(apiPost('100')), [{ channelId: CHANNEL }]);
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      makeDue(db);
+      await outbox.processDue();
+    }
+
+    expect([...db.outbox.values()][0]).toMatchObject({ status: 'dead', attempts: 2 });
+  });
+
+  it('gives up right away on a deleted channel', async () => {
+    const { db, discord, outbox } = createTestServices();
+    discord.failingChannels.set(CHANNEL, Object.assign(new Error('Unknown Channel'), { code: 10003 }));
+    await outbox.enqueue(mapApiPost(apiPost('100')), [{ channelId: CHANNEL }]);
+
+    await outbox.processDue();
+
+    expect([...db.outbox.values()][0]).toMatchObject({ status: 'dead', attempts: 1 });
+  });
+
+  it('holds a failing channel\'s later posts back without blocking other channels', async () => {
+    const { db, discord, outbox } = createTestServices();
+    discord.failingChannels.set(CHANNEL, new Error('Service Unavailable'));
+    const targets = [{ channelId: CHANNEL }, { channelId: OTHER_CHANNEL }];
+    await outbox.enqueue(mapApiPost(apiPost('100', { minutesAgo: 2 })), targets);
+    await outbox.enqueue(mapApiPost(apiPost('101', { minutesAgo: 1 })), targets);
+
+    await outbox.processDue();
+
+    expect(discord.postsSentTo(OTHER_CHANNEL).map(post => post.id)).toEqual(['100', '101']);
+    expect(db.outbox.get(`outbox:100:${CHANNEL}`)).toMatchObject({ attempts: 1 });
+    expect(db.outbox.get(`outbox:101:${CHANNEL}`)).toMatchObject({ attempts: 0 });
+
+    discord.failingChannels.clear();
+    makeDue(db);
+    await outbox.processDue();
+
+    expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['100', '101']);
+  });
+
+  it('keeps a channel\'s later posts behind one that is waiting out a retry', async () => {
+    const { db, discord, outbox } = createTestServices({ outbox: { retryDelaySeconds: 30 } });
+    discord.failingChannels.set(CHANNEL, new Error('Service Unavailable'));
+    await outbox.enqueue(mapApiPost(apiPost('100', { minutesAgo: 2 })), [{ channelId: CHANNEL }]);
+    await outbox.processDue();
+
+    // Discord is back, but 100 isn't due again for another 30 seconds
+    discord.failingChannels.clear();
+    await outbox.enqueue(mapApiPost(apiPost('101', { minutesAgo: 1 })), [{ channelId: CHANNEL }]);
+    await outbox.processDue();
+
+    expect(discord.postsSentTo(CHANNEL)).toEqual([]);
+
+    makeDue(db);
+    await outbox.processDue();
+
+    expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['100', '101']);
+  });
+
+  it('clears out old delivered items and dead letters', async () => {
+    const { config, metrics, db, discord, postChangeTracker, mediaMirror, outbox } = createTestServices({ outbox: { deadRetentionDays: 14 } });
+    const days = (count: number) => new Date(Date.now() - count * 24 * 60 * 60 * 1000).toISOString();
+    discord.failingChannels.set(OTHER_CHANNEL, Object.assign(new Error('Unknown Channel'), { code: 10003 }));
+    for (const id of ['100', '101', '102', '103']) {
+      await outbox.enqueue(mapApiPost(apiPost(id)), [{ channelId: id < '102' ? CHANNEL : OTHER_CHANNEL }]);
+    }
+    await outbox.processDue();
+
+    // Age one delivered item past a day and one dead letter past the retention
+    db.outbox.get(`outbox:100:${CHANNEL}`)!.deliveredAt = days(2);
+    db.outbox.get(`outbox:102:${OTHER_CHANNEL}`)!.nextAttemptAt = days(15);
+    // A restarted outbox prunes on its first run
+    await new Outbox(config, db, discord, postChangeTracker, mediaMirror, metrics).processDue();
+
+    expect([...db.outbox.keys()]).toEqual([`outbox:101:${CHANNEL}`, `outbox:103:${OTHER_CHANNEL}`]);
+  });
+
+  it('never queues a post twice for the same channel', async () => {
+    const { db, discord, outbox } = createTestServices();
+    const post = mapApiPost(apiPost('100'));
+
+    await outbox.enqueue(post, [{ channelId: CHANNEL }]);
+    await outbox.enqueue(post, [{ channelId: CHANNEL }]);
+    await outbox.processDue();
+
+    expect(db.outbox.size).toBe(1);
+    expect(discord.postsSentTo(CHANNEL)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,208 @@
+import { mapApiPost } from '../src/postSource';
+import { apiPost, imageAttachment } from './fixtures/truthSocialApi';
+import { createTestServices } from './support/harness';
+
+const CHANNEL = '111111111111111111';
+const OTHER_CHANNEL = '222222222222222222';
+
+describe('PostChangeTracker', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Announces the posts to both channels, like the outbox does after delivering them
+  const announce = async (services: ReturnType<typeof createTestServices>, ids: string[]) => {
+    for (const id of ids) {
+      await services.postChangeTracker.recordDelivery(mapApiPost(apiPost(id)), CHANNEL, `message-${id}`);
+      await services.postChangeTracker.recordDelivery(mapApiPost(apiPost(id)), OTHER_CHANNEL, `other-${id}`);
+    }
+  };
+
+  describe('edits', () => {
+    it('marks every announced message as edited and replies with the diff', async () => {
+      const services = createTestServices();
+      const { db, discord, postChangeTracker } = services;
+      await announce(services, ['100']);
+
+      await postChangeTracker.checkForChanges('realDonaldTrump', [mapApiPost(apiPost('100', { content: '<p>Post number one hundred</p>' }))]);
+
+      expect(discord.ofKind('update').map(({ channelId, state, messageId }) => ({ channelId, state, messageId }))).toEqual([
+        { channelId: CHANNEL, state: 'edited', messageId: 'message-100' },
+        { channelId: OTHER_CHANNEL, state: 'edited', messageId: 'other-100' }
+      ]);
+      expect(discord.ofKind('editDiff').map(message => message.replyTo)).toEqual(['message-100', 'other-100']);
+      expect(discord.ofKind('editDiff')[0].diff).toBe('Post number ~~100~~**one hundred**');
+      expect(db.announced.get('100')).toMatchObject({ editCount: 1, post: { content: 'Post number one hundred' } });
+
+      // The edited version is the new reference, fetching it again is not another edit
+      await postChangeTracker.checkForChanges('realDonaldTrump', [mapApiPost(apiPost('100', { content: '<p>Post number one hundred</p>' }))]);
+      expect(discord.ofKind('editDiff')).toHaveLength(2);
+    });
+
+    it('reports changed media when the text stayed the same', async () => {
+      const services = createTestServices();
+      await announce(services, ['100']);
+
+      await services.postChangeTracker.checkForChanges('realDonaldTrump', [
+        mapApiPost(apiPost('100', { media_attachments: [imageAttachment('added')] }))
+      ]);
+
+      expect(services.discord.ofKind('editDiff').map(message => message.diff)).toEqual([
+        'The media attachments changed.',
+        'The media attachments changed.'
+      ]);
+    });
+
+    it('keeps updating the other channels when one of them fails', async () => {
+      const services = createTestServices();
+      const { db, discord, postChangeTracker } = services;
+      await announce(services, ['100']);
+      discord.failingChannels.set(CHANNEL, new Error('Missing Access'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await postChangeTracker.checkForChanges('realDonaldTrump', [mapApiPost(apiPost('100', { content: '<p>Changed</p>' }))]);
+
+      expect(discord.ofKind('editDiff').map(message => message.channelId)).toEqual([OTHER_CHANNEL]);
+      expect(db.announced.get('100')!.editCount).toBe(1);
+    });
+  });
+
+  describe('deletions', () => {
+    it('marks a post missing from the fetched range as deleted, keeping its text', async () => {
+      const services = createTestServices();
+      const { db, discord, postChangeTracker } = services;
+      await announce(services, ['100', '101', '102']);
+
+      await postChangeTracker.checkForChanges('realDonaldTrump', [mapApiPost(apiPost('102')), mapApiPost(apiPost('100'))]);
+
+      expect(discord.ofKind('update').map(({ post, state, messageId }) => ({ id: post.id, state, messageId }))).toEqual([
+        { id: '101', state: 'deleted', messageId: 'message-101' },
+        { id: '101', state: 'deleted', messageId: 'other-101' }
+      ]);
+      expect(db.announced.get('101')).toMatchObject({ status: 'deleted', post: { content: 'Post number 101' } });
+
+      // Deleted posts are no longer watched
+      await postChangeTracker.checkForChanges('realDonaldTrump', [mapApiPost(apiPost('102')), mapApiPost(apiPost('100'))]);
+      expect(discord.ofKind('update')).toHaveLength(2);
+    });
+
+    it('does not treat posts older than the fetched page as deleted', async () => {
+      const services = createTestServices();
+      await announce(services, ['100', '101']);
+
+      await services.postChangeTracker.checkForChanges('realDonaldTrump', [mapApiPost(apiPost('102')), mapApiPost(apiPost('101'))]);
+
+      expect(services.discord.sent).toEqual([]);
+      expect(services.db.announced.get('100')!.status).toBe('active');
+    });
+
+    it('stops watching posts once they are older than the tracking window', async () => {
+      const services = createTestServices({ tracking: { editTrackingHours: 1 } });
+      await services.postChangeTracker.recordDelivery(mapApiPost(apiPost('100', { minutesAgo: 90 })), CHANNEL, 'message-100');
+
+      await services.postChangeTracker.checkForChanges('realDonaldTrump', [mapApiPost(apiPost('101'))]);
+
+      expect(services.discord.sent).toEqual([]);
+    });
+  });
+
+  describe('engagement', () => {
+    const withCounts = (id: string, favourites: number, minutesAgo = 5) =>
+      mapApiPost(apiPost(id, { favourites_count: favourites, minutesAgo }));
+
+    it('refreshes the live counts at most once per update interval', async () => {
+      const services = createTestServices({ tracking: { engagementUpdateMinutes: 15 } });
+      const { db, discord, postChangeTracker } = services;
+      await announce(services, ['100']);
+
+      await postChangeTracker.checkForChanges('realDonaldTrump', [withCounts('100', 40)]);
+
+      expect(discord.ofKind('update').map(({ state, messageId, post }) => ({ state, messageId, favourites: post.favouritesCount }))).toEqual([
+        { state: 'new', messageId: 'message-100', favourites: 40 },
+        { state: 'new', messageId: 'other-100', favourites: 40 }
+      ]);
+
+      await postChangeTracker.checkForChanges('realDonaldTrump', [withCounts('100', 50)]);
+      expect(discord.ofKind('update')).toHaveLength(2);
+
+      const snapshot = db.announced.get('100')!;
+      db.announced.set('100', { ...snapshot, engagementUpdatedAt: new Date(Date.now() - 16 * 60 * 1000).toISOString() });
+      await postChangeTracker.checkForChanges('realDonaldTrump', [withCounts('100', 50)]);
+
+      expect(discord.ofKind('update').slice(2).map(message => message.post.favouritesCount)).toEqual([50, 50]);
+    });
+
+    it('leaves the messages alone while the counts are unchanged', async () => {
+      const services = createTestServices();
+      await announce(services, ['100']);
+
+      await services.postChangeTracker.checkForChanges('realDonaldTrump', [mapApiPost(apiPost('100'))]);
+
+      expect(services.discord.sent).toEqual([]);
+    });
+
+    it('keeps an edited post marked as edited when refreshing its counts', async () => {
+      const services = createTestServices();
+      await announce(services, ['100']);
+      services.db.announced.get('100')!.editCount = 1;
+
+      await services.postChangeTracker.checkForChanges('realDonaldTrump', [withCounts('100', 40)]);
+
+      expect(services.discord.ofKind('update').map(message => message.state)).toEqual(['edited', 'edited']);
+    });
+  });
+
+  describe('trending alerts', () => {
+    it('sends one follow-up per message once a post passes the like threshold', async () => {
+      const services = createTestServices({ tracking: { trendingFavouritesThreshold: 50000, trendingVelocityPerHour: 0 } });
+      const { discord, postChangeTracker } = services;
+      await announce(services, ['100']);
+
+      await postChangeTracker.checkForChanges('realDonaldTrump', [mapApiPost(apiPost('100', { favourites_count: 49999 }))]);
+      expect(discord.ofKind('trending')).toEqual([]);
+
+      await postChangeTracker.checkForChanges('realDonaldTrump', [mapApiPost(apiPost('100', { favourites_count: 50000 }))]);
+      await postChangeTracker.checkForChanges('realDonaldTrump', [mapApiPost(apiPost('100', { favourites_count: 90000 }))]);
+
+      expect(discord.ofKind('trending').map(({ reason, messageId }) => ({ reason, messageId }))).toEqual([
+        { reason: 'passed 50,000 likes', messageId: 'message-100' },
+        { reason: 'passed 50,000 likes', messageId: 'other-100' }
+      ]);
+    });
+
+    it('alerts on like velocity, but not in the first minutes after posting', async () => {
+      const services = createTestServices({ tracking: { trendingFavouritesThreshold: 0, trendingVelocityPerHour: 20000 } });
+      const { discord, postChangeTracker } = services;
+      await postChangeTracker.recordDelivery(mapApiPost(apiPost('100', { minutesAgo: 30 })), CHANNEL, 'message-100');
+      await postChangeTracker.recordDelivery(mapApiPost(apiPost('101', { minutesAgo: 5 })), CHANNEL, 'message-101');
+
+      await postChangeTracker.checkForChanges('realDonaldTrump', [
+        mapApiPost(apiPost('101', { favourites_count: 15000, minutesAgo: 5 })),
+        mapApiPost(apiPost('100', { favourites_count: 15000, minutesAgo: 30 }))
+      ]);
+
+      expect(discord.ofKind('trending').map(({ post, reason }) => ({ id: post.id, reason }))).toEqual([
+        { id: '100', reason: 'gaining 30,000 likes per hour' }
+      ]);
+    });
+  });
+
+  describe('hash versions', () => {
+    it('re-baselines a snapshot hashed the old way without reporting an edit', async () => {
+      const { db, discord, postChangeTracker } = createTestServices();
+      const post = mapApiPost(apiPost('100'));
+      await postChangeTracker.recordDelivery(post, CHANNEL, 'message-1');
+      const snapshot = db.announced.get('100')!;
+      db.announced.set('100', { ...snapshot, contentHash: 'f'.repeat(64) });
+
+      await postChangeTracker.checkForChanges('realDonaldTrump', [post]);
+
+      expect(discord.sent).toEqual([]);
+      expect(db.announced.get('100')).toMatchObject({ contentHash: snapshot.contentHash, editCount: 0 });
+
+      await postChangeTracker.checkForChanges('realDonaldTrump', [mapApiPost(apiPost('100', { content: '<p>Edited</p>' }))]);
+
+      expect(discord.ofKind('editDiff')).toHaveLength(1);
+    });
+  });
+});
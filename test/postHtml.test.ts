@@ -0,0 +1,55 @@
+import { decodeHtmlEntities, htmlToDiscordMarkdown, htmlToPlainText } from '../src/postHtml';
+
+// Markup as Truth Social sends it, Mastodon style mentions, hashtags and shortened links
+const MENTION = '<span class="h-card"><a href="https://truthsocial.com/@JDVance" class="u-url mention">@<span>JDVance</span></a></span>';
+const HASHTAG = '<a href="https://truthsocial.com/tags/MAGA" class="mention hashtag" rel="tag">#<span>MAGA</span></a>';
+const LINK = '<a href="https://www.whitehouse.gov/briefings/a_long_path" rel="nofollow noopener noreferrer" target="_blank">'
+  + '<span class="invisible">https://www.</span><span class="ellipsis">whitehouse.gov/briefings/a_lo</span>'
+  + '<span class="invisible">ng_path</span></a>';
+
+describe('decodeHtmlEntities', () => {
+  it('decodes named, decimal and hex entities', () => {
+    expect(decodeHtmlEntities('Law &amp; Order &#39;24 &#x2014; &quot;now&quot;&hellip;')).toBe('Law & Order \'24 — "now"…');
+  });
+
+  it('leaves unknown entities alone', () => {
+    expect(decodeHtmlEntities('&bogus; &#0;')).toBe('&bogus; &#0;');
+  });
+});
+
+describe('htmlToPlainText', () => {
+  it('keeps paragraphs and line breaks', () => {
+    expect(htmlToPlainText('<p>First line<br/>Second line</p><p>New paragraph</p>')).toBe('First line\nSecond line\n\nNew paragraph');
+  });
+
+  it('shows mentions, hashtags and links by their text or URL', () => {
+    expect(htmlToPlainText(`<p>Thanks ${MENTION}! ${HASHTAG} ${LINK}</p>`))
+      .toBe('Thanks @JDVance! #MAGA https://www.whitehouse.gov/briefings/a_long_path');
+  });
+
+  it('keeps the target of a link with its own label', () => {
+    expect(htmlToPlainText('<p>Read <a href="https://example.com/story">the story</a></p>')).toBe('Read the story (https://example.com/story)');
+  });
+});
+
+describe('htmlToDiscordMarkdown', () => {
+  it('turns mentions and hashtags into links and keeps bare URLs', () => {
+    expect(htmlToDiscordMarkdown(`<p>Thanks ${MENTION}! ${HASHTAG}</p><p>${LINK}</p>`)).toBe(
+      'Thanks [@JDVance](https://truthsocial.com/@JDVance)! [#MAGA](https://truthsocial.com/tags/MAGA)\n\n'
+      + 'https://www.whitehouse.gov/briefings/a_long_path'
+    );
+  });
+
+  it('escapes Discord markdown in the text', () => {
+    expect(htmlToDiscordMarkdown('<p>*Not* bold, __not__ underlined, ~~no~~ &lt;@123&gt; [x](y)</p><p># Not a heading</p><p>- not a list</p>'))
+      .toBe('\\*Not\\* bold, \\_\\_not\\_\\_ underlined, \\~\\~no\\~\\~ \\<@123> \\[x\\](y)\n\n\\# Not a heading\n\n\\- not a list');
+  });
+
+  it('escapes link labels but not their targets', () => {
+    expect(htmlToDiscordMarkdown('<a href="https://example.com/a_(b)">*Big* news</a>')).toBe('[\\*Big\\* news](https://example.com/a_(b%29)');
+  });
+
+  it('does not turn other schemes into links', () => {
+    expect(htmlToDiscordMarkdown('<a href="javascript:alert(1)">click</a>')).toBe('click');
+  });
+});
@@ -0,0 +1,90 @@
+import { comparePostIds, getPostKind, mapApiPost } from '../src/postSource';
+import { TRUMP_ACCOUNT, VANCE_ACCOUNT, apiPost, imageAttachment, quoteOf, replyTo, repostOf } from './fixtures/truthSocialApi';
+
+describe('mapApiPost', () => {
+  it('maps an original post', () => {
+    const post = mapApiPost(apiPost('100', { content: '<p>Hello <b>America</b></p>' }));
+
+    expect(post).toMatchObject({
+      id: '100',
+      kind: 'original',
+      isRepost: false,
+      content: 'Hello America',
+      account: { username: 'realDonaldTrump', displayName: 'Donald J. Trump' }
+    });
+    expect(post.reposted).toBeUndefined();
+  });
+
+  it('takes a ReTruth\'s text and media from the reposted post', () => {
+    const original = apiPost('90', { account: VANCE_ACCOUNT, content: '<p>Great rally</p>', media_attachments: [imageAttachment('rally')] });
+
+    const post = mapApiPost(repostOf('100', original));
+
+    expect(post).toMatchObject({ kind: 'repost', isRepost: true, content: 'Great rally' });
+    expect(post.media_attachments?.map(media => media.url)).toEqual([imageAttachment('rally').url]);
+    expect(post.reposted).toMatchObject({ id: '90', account: { username: 'JDVance' }, favouritesCount: 30 });
+  });
+
+  it('maps a quote post without the inline RT link', () => {
+    const quoted = apiPost('90', { account: VANCE_ACCOUNT, content: '<p>Big news</p>' });
+
+    const post = mapApiPost(quoteOf('100', quoted, 'So true!'));
+
+    expect(post).toMatchObject({ kind: 'quote', content: 'So true!' });
+    expect(post.quoted).toMatchObject({ id: '90', content: 'Big news', account: { username: 'JDVance' } });
+  });
+
+  it('strips the RT link from plain text quote posts too', () => {
+    const quoted = apiPost('90');
+    const post = mapApiPost({ ...quoteOf('100', quoted, 'So true!'), text: `So true!\nRT: ${quoted.url}` });
+
+    expect(post.content).toBe('So true!');
+  });
+
+  it('still marks a quote post when only the quoted ID is known', () => {
+    const post = mapApiPost(apiPost('100', { quote_id: '90' }));
+
+    expect(post.kind).toBe('quote');
+    expect(post.quoted).toBeUndefined();
+  });
+
+  it('finds the replied-to account from the mentions', () => {
+    const parent = apiPost('90', { account: VANCE_ACCOUNT });
+
+    const post = mapApiPost(replyTo('100', parent, 'Thank you JD!'));
+
+    expect(post.kind).toBe('reply');
+    expect(post.inReplyTo).toEqual({ id: '90', username: 'JDVance', url: 'https://truthsocial.com/@JDVance/90', post: undefined });
+  });
+
+  it('recognizes replies in the account\'s own thread', () => {
+    const post = mapApiPost(apiPost('100', { in_reply_to_id: '90', in_reply_to_account_id: TRUMP_ACCOUNT.id }));
+
+    expect(post.inReplyTo?.username).toBe('realDonaldTrump');
+  });
+
+  it('uses the parent status when the API includes it', () => {
+    const parent = apiPost('90', { account: VANCE_ACCOUNT, content: '<p>Question?</p>' });
+
+    const post = mapApiPost({ ...apiPost('100', { in_reply_to_id: '90', in_reply_to_account_id: 'unknown' }), in_reply_to: parent });
+
+    expect(post.inReplyTo).toMatchObject({ username: 'JDVance', url: parent.url, post: { content: 'Question?' } });
+  });
+});
+
+describe('getPostKind', () => {
+  it('falls back to isRepost for posts stored before kinds existed', () => {
+    const { kind, ...stored } = mapApiPost(apiPost('100'));
+
+    expect(getPostKind({ ...stored, isRepost: true })).toBe('repost');
+    expect(getPostKind({ ...stored, isRepost: false })).toBe('original');
+  });
+});
+
+describe('comparePostIds', () => {
+  it('orders IDs numerically', () => {
+    expect(comparePostIds('1000', '999')).toBe(1);
+    expect(comparePostIds('999', '1000')).toBe(-1);
+    expect(comparePostIds('114000000000000001', '114000000000000001')).toBe(0);
+  });
+});
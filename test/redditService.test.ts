@@ -0,0 +1,112 @@
+import axios from 'axios';
+import { RedditService } from '../src/redditService';
+import { InMemoryStateStore } from './support/inMemoryStateStore';
+import { RecordingDiscordSender } from './support/recordingDiscordSender';
+import { createTestConfig } from './support/harness';
+
+// A post in the shape of Reddit's /new.json listing
+function listingPost(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    data: {
+      id,
+      title: `Post ${id}`,
+      permalink: `/r/TrumpTracker/comments/${id}/post/`,
+      url: `https://www.reddit.com/r/TrumpTracker/comments/${id}/post/`,
+      created_utc: 1736001000,
+      author: 'someone',
+      selftext: 'Body',
+      is_self: true,
+      subreddit: 'TrumpTracker',
+      ...overrides
+    }
+  };
+}
+
+describe('RedditService', () => {
+  let listing: ReturnType<typeof listingPost>[];
+
+  beforeEach(() => {
+    listing = [];
+    jest.spyOn(axios, 'get').mockImplementation(async () => ({ data: { data: { children: listing } } }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function createService() {
+    const db = new InMemoryStateStore();
+    const discord = new RecordingDiscordSender('999999999999999999');
+    const service = new RedditService(createTestConfig({ reddit: { subreddits: ['TrumpTracker'] } }), db, discord);
+    return { db, discord, service };
+  }
+
+  it('only remembers where the listing is on the first run', async () => {
+    const { db, discord, service } = createService();
+    listing = [listingPost('b2'), listingPost('b1')];
+
+    await service.fetchLatestPosts();
+
+    expect(await db.getLastSeenRedditPost('TrumpTracker')).toBe('b2');
+    expect(discord.ofKind('reddit')).toEqual([]);
+  });
+
+  it('announces new posts oldest first and skips stickied ones', async () => {
+    const { db, discord, service } = createService();
+    await db.updateLastSeenRedditPost('TrumpTracker', 'b1');
+    // base36: "b10" comes after "b2"
+    listing = [listingPost('aaa', { stickied: true }), listingPost('b2'), listingPost('b10'), listingPost('b1')];
+
+    await service.fetchLatestPosts();
+
+    expect(discord.ofKind('reddit').map(message => message.post.id)).toEqual(['b2', 'b10']);
+    expect(await db.getLastSeenRedditPost('TrumpTracker')).toBe('b10');
+  });
+
+  it('waits for the state store instead of starting the cursor over', async () => {
+    const { db, discord, service } = createService();
+    await db.updateLastSeenRedditPost('TrumpTracker', 'b1');
+    listing = [listingPost('b3'), listingPost('b2'), listingPost('b1')];
+    db.isInitialized = false;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await service.fetchLatestPosts();
+
+    expect(axios.get).not.toHaveBeenCalled();
+
+    db.isInitialized = true;
+    await service.fetchLatestPosts();
+
+    expect(discord.ofKind('reddit').map(message => message.post.id)).toEqual(['b2', 'b3']);
+  });
+
+  it('leaves the cursor alone when it could not be read', async () => {
+    const { db, discord, service } = createService();
+    await db.updateLastSeenRedditPost('TrumpTracker', 'b1');
+    listing = [listingPost('b3'), listingPost('b2'), listingPost('b1')];
+    jest.spyOn(db, 'getLastSeenRedditPost').mockRejectedValueOnce(new Error('socket hang up'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await service.fetchLatestPosts();
+
+    expect(discord.ofKind('reddit')).toEqual([]);
+    expect(db.redditCursors.get('trumptracker')).toBe('b1');
+  });
+
+  it('keeps undelivered posts for the next poll when Discord is unavailable', async () => {
+    const { db, discord, service } = createService();
+    await db.updateLastSeenRedditPost('TrumpTracker', 'b1');
+    listing = [listingPost('b3'), listingPost('b2')];
+    discord.ready = false;
+
+    await service.fetchLatestPosts();
+
+    expect(await db.getLastSeenRedditPost('TrumpTracker')).toBe('b1');
+
+    discord.ready = true;
+    await service.fetchLatestPosts();
+
+    expect(discord.ofKind('reddit').map(message => message.post.id)).toEqual(['b2', 'b3']);
+    expect(await db.getLastSeenRedditPost('TrumpTracker')).toBe('b3');
+  });
+});
@@ -0,0 +1,37 @@
+import axios from 'axios';
+import { SourceRejectedError } from '../src/postSource';
+import { ScrapeCreatorsSource } from '../src/scrapeCreatorsSource';
+import { apiPost } from './fixtures/truthSocialApi';
+import { createTestConfig } from './support/harness';
+
+describe('ScrapeCreatorsSource', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const respond = (data: unknown) => jest.spyOn(axios, 'get').mockResolvedValue({ data });
+  const source = () => new ScrapeCreatorsSource(createTestConfig().current.sources);
+
+  it('fetches a page of posts with the API key', async () => {
+    respond({ success: true, posts: [apiPost('101'), apiPost('100')], next_max_id: '100' });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    const page = await source().fetchPosts('realDonaldTrump', '102');
+
+    expect(page.posts.map(post => post.id)).toEqual(['101', '100']);
+    expect(page.nextMaxId).toBe('100');
+    expect(axios.get).toHaveBeenCalledWith('https://api.scrapecreators.com/v1/truthsocial/user/posts', {
+      params: { handle: 'realDonaldTrump', next_max_id: '102' },
+      headers: { 'x-api-key': 'test-key' }
+    });
+  });
+
+  it('throws the API\'s message when it reports a failure, instead of an empty page', async () => {
+    respond({ success: false, message: 'You are out of credits' });
+
+    const fetched = source().fetchPosts('realDonaldTrump');
+
+    await expect(fetched).rejects.toThrow(SourceRejectedError);
+    await expect(fetched).rejects.toThrow('ScrapeCreators rejected the request: You are out of credits');
+  });
+});
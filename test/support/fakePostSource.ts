@@ -0,0 +1,51 @@
+import { PostPage, PostSource, TruthSocialApiPost, mapApiPost } from '../../src/postSource';
+
+// Serves canned API responses per handle, paged like the real API, or throws a queued error
+export class FakePostSource implements PostSource {
+  readonly name = 'Fake';
+  readonly requests: { handle: string; maxId?: string }[] = [];
+  private posts = new Map<string, TruthSocialApiPost[]>();
+  private errors: unknown[] = [];
+  // Posts per page, lower it to exercise backfill paging
+  pageSize = 20;
+  configured = true;
+
+  isConfigured(): boolean {
+    return this.configured;
+  }
+
+  // Replaces everything the account has posted, in any order
+  setPosts(handle: string, posts: TruthSocialApiPost[]): void {
+    this.posts.set(handle.toLowerCase(), posts);
+  }
+
+  // The next request fails with this error
+  failNext(error: unknown): void {
+    this.errors.push(error);
+  }
+
+  async fetchPosts(handle: string, maxId?: string): Promise<PostPage> {
+    this.requests.push({ handle, maxId });
+    if (this.errors.length > 0) {
+      throw this.errors.shift();
+    }
+
+    const newestFirst = [...(this.posts.get(handle.toLowerCase()) ?? [])]
+      .sort((a, b) => (BigInt(b.id) > BigInt(a.id) ? 1 : -1))
+      .filter(post => !maxId || BigInt(post.id) < BigInt(maxId));
+    const page = newestFirst.slice(0, this.pageSize);
+    const hasMore = newestFirst.length > this.pageSize;
+
+    return {
+      posts: page.map(mapApiPost),
+      nextMaxId: hasMore ? page[page.length - 1].id : undefined
+    };
+  }
+}
+
+// An axios-style error with an HTTP response
+export function httpError(status: number, headers: Record<string, string> = {}): Error {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, headers }
+  });
+}
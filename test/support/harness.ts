@@ -0,0 +1,69 @@
+import { AppConfig, ConfigService, loadConfig } from '../../src/config';
+import { RecentPosts } from '../../src/recentPosts';
+import { UrgencyClassifier } from '../../src/urgencyTiers';
+import { NotifierHub } from '../../src/notifiers';
+import { PostChangeTracker } from '../../src/postChangeTracker';
+import { Outbox } from '../../src/outbox';
+import { MediaMirror } from '../../src/mediaMirror';
+import { IncidentTracker } from '../../src/incidents';
+import { Metrics } from '../../src/metrics';
+import { TruthSocialService } from '../../src/truthSocialService';
+import { FakePostSource } from './fakePostSource';
+import { InMemoryStateStore } from './inMemoryStateStore';
+import { RecordingDiscordSender } from './recordingDiscordSender';
+
+// Just enough environment for a valid config, everything else keeps its default
+export const TEST_ENV: NodeJS.ProcessEnv = {
+  DISCORD_TOKEN: 'test-token',
+  COUCHDB_USERNAME: 'admin',
+  COUCHDB_PASSWORD: 'password',
+  SCRAPECREATORS_API_KEY: 'test-key'
+};
+
+type ConfigOverrides = { [K in keyof AppConfig]?: Partial<AppConfig[K]> };
+
+// Merged into the section, or replacing it when either side is null (like an unset filter)
+function overrideSection<K extends keyof AppConfig>(config: AppConfig, section: K, values: ConfigOverrides[K]): void {
+  const current = config[section];
+  if (values === undefined) return;
+  config[section] = current === null || values === null ? values as AppConfig[K] : { ...current, ...values };
+}
+
+export function createTestConfig(overrides: ConfigOverrides = {}, env: NodeJS.ProcessEnv = {}): ConfigService {
+  const config = loadConfig({ ...TEST_ENV, ...env }, null);
+  for (const section of Object.keys(overrides) as (keyof AppConfig)[]) {
+    overrideSection(config, section, overrides[section]);
+  }
+  return new ConfigService(config);
+}
+
+// The Truth Social pipeline wired like createApp does, with fakes for the API, CouchDB and Discord
+export function createTestServices(overrides: ConfigOverrides = {}) {
+  const config = createTestConfig(overrides);
+  const metrics = new Metrics();
+  const source = new FakePostSource();
+  const db = new InMemoryStateStore();
+  const discord = new RecordingDiscordSender(config.current.discord.channelId);
+  const recentPosts = new RecentPosts();
+  const urgencyClassifier = new UrgencyClassifier(config);
+  const incidents = new IncidentTracker(config, discord);
+  const postChangeTracker = new PostChangeTracker(config, db, discord);
+  const mediaMirror = new MediaMirror(config);
+  const outbox = new Outbox(config, db, discord, postChangeTracker, mediaMirror, metrics);
+  const notifiers = new NotifierHub([], urgencyClassifier, metrics);
+  const truthSocialService = new TruthSocialService(
+    config,
+    db,
+    discord,
+    source,
+    outbox,
+    notifiers,
+    postChangeTracker,
+    recentPosts,
+    urgencyClassifier,
+    incidents,
+    metrics
+  );
+
+  return { config, metrics, source, db, discord, recentPosts, urgencyClassifier, incidents, postChangeTracker, mediaMirror, outbox, truthSocialService };
+}
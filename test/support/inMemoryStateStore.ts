@@ -0,0 +1,230 @@
+import {
+  AnnouncedPost,
+  ArchivedPost,
+  DeliveryMode,
+  DeliveryTarget,
+  DigestSchedule,
+  OutboxItem,
+  StateSnapshot,
+  StateStore,
+  Subscription,
+  buildArchivedPost
+} from '../../src/stateStore';
+import { DateFormat } from '../../src/dateFormat';
+import { FilterRule } from '../../src/filterRules';
+import { TruthSocialPost } from '../../src/types';
+
+// StateStore kept in maps, with the same semantics as CouchDbStore for what the tests touch
+export class InMemoryStateStore implements StateStore {
+  isInitialized = true;
+  readonly truthSocialCursors = new Map<string, string>();
+  readonly redditCursors = new Map<string, string>();
+  readonly subscriptions = new Map<string, Subscription>();
+  readonly outbox = new Map<string, OutboxItem>();
+  readonly announced = new Map<string, AnnouncedPost>();
+  readonly archive = new Map<string, ArchivedPost>();
+  // Set to make outbox writes fail, like CouchDB being unreachable mid-poll
+  failOutboxWrites = false;
+
+  async connect(): Promise<void> {}
+
+  async getLastSeenTruthSocialPost(handle: string): Promise<string | undefined> {
+    return this.truthSocialCursors.get(handle.toLowerCase());
+  }
+
+  async updateLastSeenTruthSocialPost(handle: string, postId: string): Promise<void> {
+    this.truthSocialCursors.set(handle.toLowerCase(), postId);
+  }
+
+  async getLastSeenRedditPost(subreddit: string): Promise<string | undefined> {
+    return this.redditCursors.get(subreddit.toLowerCase());
+  }
+
+  async updateLastSeenRedditPost(subreddit: string, postId: string): Promise<void> {
+    this.redditCursors.set(subreddit.toLowerCase(), postId);
+  }
+
+  async recordAnnouncedMessage(post: TruthSocialPost, contentHash: string, channelId: string, messageId: string): Promise<void> {
+    const doc: AnnouncedPost = this.announced.get(post.id) ?? {
+      _id: `announced:${post.id}`,
+      type: 'announced',
+      postId: post.id,
+      handle: post.account.username.toLowerCase(),
+      postCreatedAt: post.createdAt,
+      post,
+      contentHash,
+      status: 'active',
+      messages: [],
+      editCount: 0
+    };
+    if (!doc.messages.some(message => message.channelId === channelId && message.messageId === messageId)) {
+      doc.messages.push({ channelId, messageId });
+    }
+    this.announced.set(post.id, doc);
+  }
+
+  async getActiveAnnouncedPosts(handle: string, since: Date): Promise<AnnouncedPost[]> {
+    return [...this.announced.values()].filter(doc =>
+      doc.handle === handle.toLowerCase() && doc.status === 'active' && doc.postCreatedAt >= since.toISOString());
+  }
+
+  async updateAnnouncedPost(doc: AnnouncedPost): Promise<void> {
+    this.announced.set(doc.postId, structuredClone(doc));
+  }
+
+  async archivePosts(posts: TruthSocialPost[]): Promise<void> {
+    const now = new Date().toISOString();
+    for (const post of posts) {
+      const doc = buildArchivedPost(`post:${post.id}`, post, this.archive.get(post.id), now);
+      if (doc) this.archive.set(post.id, doc);
+    }
+  }
+
+  async getArchivedPost(postId: string): Promise<ArchivedPost | null> {
+    return this.archive.get(postId) ?? null;
+  }
+
+  async getArchivedPostsBetween(from: Date, to: Date, limit: number = 1000): Promise<ArchivedPost[]> {
+    return [...this.archive.values()]
+      .filter(doc => doc.createdAt >= from.toISOString() && doc.createdAt < to.toISOString())
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+
+  async searchArchivedPosts(query: string, from?: Date, to?: Date, limit: number = 100): Promise<ArchivedPost[]> {
+    const terms = query.toLowerCase().split(/[^\w#@']+/).filter(term => term.length > 0);
+    return (await this.getArchivedPostsBetween(from ?? new Date(0), to ?? new Date(), Infinity))
+      .filter(doc => terms.every(term => doc.post.content.toLowerCase().includes(term)))
+      .slice(0, limit);
+  }
+
+  async getSubscriptions(guildId?: string): Promise<Subscription[]> {
+    return [...this.subscriptions.values()].filter(sub => !guildId || sub.guildId === guildId);
+  }
+
+  async getSubscription(channelId: string): Promise<Subscription | null> {
+    return this.subscriptions.get(channelId) ?? null;
+  }
+
+  async addSubscription(guildId: string, channelId: string, createdBy: string, delivery: DeliveryMode = 'realtime'): Promise<boolean> {
+    if (this.subscriptions.has(channelId)) return false;
+    this.subscriptions.set(channelId, {
+      _id: `subscription:${channelId}`,
+      type: 'subscription',
+      guildId,
+      channelId,
+      createdBy,
+      createdAt: new Date().toISOString(),
+      delivery
+    });
+    return true;
+  }
+
+  async removeSubscription(channelId: string): Promise<boolean> {
+    return this.subscriptions.delete(channelId);
+  }
+
+  async setSubscriptionDelivery(channelId: string, delivery: DeliveryMode, digestSchedule?: DigestSchedule): Promise<Subscription | null> {
+    const doc = this.subscriptions.get(channelId);
+    if (!doc) return null;
+    const updated = { ...doc, delivery, digestSchedule: digestSchedule ?? doc.digestSchedule };
+    this.subscriptions.set(channelId, updated);
+    return updated;
+  }
+
+  async setSubscriptionMentionRole(channelId: string, roleId: string | undefined): Promise<boolean> {
+    const doc = this.subscriptions.get(channelId);
+    if (!doc) return false;
+    this.subscriptions.set(channelId, { ...doc, mentionRoleId: roleId });
+    return true;
+  }
+
+  async setSubscriptionFilter(channelId: string, filter: FilterRule | undefined): Promise<boolean> {
+    const doc = this.subscriptions.get(channelId);
+    if (!doc) return false;
+    this.subscriptions.set(channelId, { ...doc, filter });
+    return true;
+  }
+
+  async setSubscriptionDateFormat(channelId: string, dateFormat: Partial<DateFormat> | undefined): Promise<boolean> {
+    const doc = this.subscriptions.get(channelId);
+    if (!doc) return false;
+    this.subscriptions.set(channelId, { ...doc, dateFormat });
+    return true;
+  }
+
+  async enqueueOutboxItems(post: TruthSocialPost, targets: DeliveryTarget[]): Promise<void> {
+    if (this.failOutboxWrites) {
+      throw new Error('Database not initialized');
+    }
+
+    const now = new Date().toISOString();
+    for (const { channelId, mentionRoleId } of targets) {
+      const id = `outbox:${post.id}:${channelId}`;
+      if (this.outbox.has(id)) continue;
+      this.outbox.set(id, {
+        _id: id,
+        type: 'outbox',
+        channelId,
+        ...(mentionRoleId ? { mentionRoleId } : {}),
+        post,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: now,
+        createdAt: now
+      });
+    }
+  }
+
+  async getPendingOutboxItems(): Promise<OutboxItem[]> {
+    return [...this.outbox.values()]
+      .filter(item => item.status === 'pending')
+      .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt))
+      .map(item => structuredClone(item));
+  }
+
+  async pruneOutboxItems(deliveredBefore: Date, deadBefore: Date): Promise<number> {
+    const delivered = deliveredBefore.toISOString();
+    const dead = deadBefore.toISOString();
+    let removed = 0;
+    for (const [id, item] of this.outbox) {
+      if ((item.status === 'delivered' && (item.deliveredAt ?? item.createdAt) < delivered) ||
+          (item.status === 'dead' && item.nextAttemptAt < dead)) {
+        this.outbox.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async updateOutboxItem(item: OutboxItem): Promise<void> {
+    this.outbox.set(item._id, structuredClone(item));
+  }
+
+  async exportState(): Promise<StateSnapshot> {
+    return structuredClone({
+      truthSocialCursors: Object.fromEntries(this.truthSocialCursors),
+      redditCursors: Object.fromEntries(this.redditCursors),
+      subscriptions: [...this.subscriptions.values()],
+      outbox: [...this.outbox.values()],
+      announced: [...this.announced.values()],
+      archive: [...this.archive.values()]
+    });
+  }
+
+  async importState(snapshot: StateSnapshot): Promise<void> {
+    const copy = structuredClone(snapshot);
+    Object.entries(copy.truthSocialCursors).forEach(([handle, postId]) => this.truthSocialCursors.set(handle, postId));
+    Object.entries(copy.redditCursors).forEach(([subreddit, postId]) => this.redditCursors.set(subreddit, postId));
+    copy.subscriptions.forEach(doc => this.subscriptions.set(doc.channelId, doc));
+    copy.outbox.forEach(doc => this.outbox.set(doc._id, doc));
+    copy.announced.forEach(doc => this.announced.set(doc.postId, doc));
+    copy.archive.forEach(doc => this.archive.set(doc.post.id, doc));
+  }
+
+  // Test helper, subscribes a channel with realtime delivery
+  async subscribe(channelId: string, fields: Partial<Subscription> = {}): Promise<void> {
+    await this.addSubscription('guild-1', channelId, 'user-1');
+    this.subscriptions.set(channelId, { ...this.subscriptions.get(channelId)!, ...fields });
+  }
+}
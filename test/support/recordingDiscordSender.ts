@@ -0,0 +1,93 @@
+import { EmbedBuilder } from 'discord.js';
+import { DiscordSender } from '../../src/discordClient';
+import { PostState } from '../../src/embeds';
+import { RedditPost, TruthSocialPost } from '../../src/types';
+
+export type SentMessage =
+  | { kind: 'post'; channelId: string; post: TruthSocialPost; mentionRoleId?: string; messageId: string }
+  | { kind: 'update'; channelId: string; post: TruthSocialPost; state: PostState; messageId: string }
+  | { kind: 'editDiff'; channelId: string; post: TruthSocialPost; diff: string; replyTo: string }
+  | { kind: 'trending'; channelId: string; post: TruthSocialPost; reason: string; messageId: string }
+  | { kind: 'embed'; channelId: string; embed: EmbedBuilder }
+  | { kind: 'direct'; userId: string; embed: EmbedBuilder }
+  | { kind: 'summary'; channelId: string; posts: TruthSocialPost[]; title: string }
+  | { kind: 'reddit'; post: RedditPost };
+
+// Records everything sent instead of talking to Discord. Channels can be made to fail.
+export class RecordingDiscordSender implements DiscordSender {
+  ready = true;
+  readonly sent: SentMessage[] = [];
+  // Channel ID -> error thrown for every send to it
+  readonly failingChannels = new Map<string, unknown>();
+  private nextMessageId = 1;
+
+  constructor(private defaultChannelId = '') {}
+
+  withDefaultChannel(channelIds: string[]): string[] {
+    const targets = new Set(channelIds);
+    if (this.defaultChannelId) {
+      targets.add(this.defaultChannelId);
+    }
+    return [...targets];
+  }
+
+  // Posts announced to one channel, in the order they were sent
+  postsSentTo(channelId: string): TruthSocialPost[] {
+    return this.sent.flatMap(message => message.kind === 'post' && message.channelId === channelId ? [message.post] : []);
+  }
+
+  ofKind<K extends SentMessage['kind']>(kind: K): Extract<SentMessage, { kind: K }>[] {
+    return this.sent.filter((message): message is Extract<SentMessage, { kind: K }> => message.kind === kind);
+  }
+
+  private check(channelId: string): void {
+    if (!this.ready) {
+      throw new Error('Discord client not ready');
+    }
+    if (this.failingChannels.has(channelId)) {
+      throw this.failingChannels.get(channelId);
+    }
+  }
+
+  async sendTruthSocialUpdate(post: TruthSocialPost, channelId: string, mentionRoleId?: string): Promise<string> {
+    this.check(channelId);
+    const messageId = `message-${this.nextMessageId++}`;
+    this.sent.push({ kind: 'post', channelId, post, mentionRoleId, messageId });
+    return messageId;
+  }
+
+  async updateTruthSocialMessage(post: TruthSocialPost, state: PostState, channelId: string, messageId: string): Promise<void> {
+    this.check(channelId);
+    this.sent.push({ kind: 'update', channelId, post, state, messageId });
+  }
+
+  async sendEditDiff(post: TruthSocialPost, diff: string, channelId: string, replyToMessageId: string): Promise<void> {
+    this.check(channelId);
+    this.sent.push({ kind: 'editDiff', channelId, post, diff, replyTo: replyToMessageId });
+  }
+
+  async sendTrendingAlert(post: TruthSocialPost, reason: string, channelId: string, messageId: string): Promise<void> {
+    this.check(channelId);
+    this.sent.push({ kind: 'trending', channelId, post, reason, messageId });
+  }
+
+  async sendEmbed(embed: EmbedBuilder, channelId: string): Promise<void> {
+    this.check(channelId);
+    this.sent.push({ kind: 'embed', channelId, embed });
+  }
+
+  async sendDirectEmbed(embed: EmbedBuilder, userId: string): Promise<void> {
+    this.check(userId);
+    this.sent.push({ kind: 'direct', userId, embed });
+  }
+
+  async sendPostSummary(posts: TruthSocialPost[], title: string, channelId: string): Promise<void> {
+    this.check(channelId);
+    this.sent.push({ kind: 'summary', channelId, posts, title });
+  }
+
+  async sendRedditUpdate(post: RedditPost): Promise<void> {
+    this.check(this.defaultChannelId);
+    this.sent.push({ kind: 'reddit', post });
+  }
+}
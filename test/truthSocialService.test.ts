@@ -0,0 +1,445 @@
+import { SourceRejectedError } from '../src/postSource';
+import { apiPost, imageAttachment, quoteOf, replyTo, TRUMP_ACCOUNT, VANCE_ACCOUNT } from './fixtures/truthSocialApi';
+import { httpError } from './support/fakePostSource';
+import { createTestServices } from './support/harness';
+
+const CHANNEL = '111111111111111111';
+const OTHER_CHANNEL = '222222222222222222';
+const ADMIN = '333333333333333333';
+
+describe('TruthSocialService', () => {
+  describe('new-post detection', () => {
+    it('announces only the latest recent post for a new account and stores the cursor', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices();
+      await db.subscribe(CHANNEL);
+      source.setPosts('realDonaldTrump', [apiPost('100'), apiPost('101'), apiPost('102')]);
+
+      const result = await truthSocialService.fetchLatestPosts();
+
+      expect(result).toEqual({ requests: 1, failed: false, rateLimited: false });
+      expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['102']);
+      expect(db.truthSocialCursors.get('realdonaldtrump')).toBe('102');
+    });
+
+    it('only stores the cursor when the latest post of a new account is too old', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices();
+      await db.subscribe(CHANNEL);
+      source.setPosts('realDonaldTrump', [apiPost('100', { minutesAgo: 48 * 60 })]);
+
+      await truthSocialService.fetchLatestPosts();
+
+      expect(discord.sent).toEqual([]);
+      expect(db.truthSocialCursors.get('realdonaldtrump')).toBe('100');
+    });
+
+    it('announces only posts newer than the cursor', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices();
+      await db.subscribe(CHANNEL);
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '101');
+      source.setPosts('realDonaldTrump', [apiPost('100'), apiPost('101'), apiPost('102'), apiPost('103')]);
+
+      await truthSocialService.fetchLatestPosts();
+      await truthSocialService.fetchLatestPosts();
+
+      expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['102', '103']);
+      expect(db.truthSocialCursors.get('realdonaldtrump')).toBe('103');
+    });
+
+    it('compares post IDs as numbers, not strings', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices();
+      await db.subscribe(CHANNEL);
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '999');
+      source.setPosts('realDonaldTrump', [apiPost('998'), apiPost('999'), apiPost('1000')]);
+
+      await truthSocialService.fetchLatestPosts();
+
+      expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['1000']);
+      expect(db.truthSocialCursors.get('realdonaldtrump')).toBe('1000');
+    });
+
+    it('skips new posts older than the age limit but still moves the cursor past them', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices({ truthSocial: { maxPostAgeHours: 2 } });
+      await db.subscribe(CHANNEL);
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      source.setPosts('realDonaldTrump', [apiPost('100'), apiPost('101', { minutesAgo: 180 }), apiPost('102', { minutesAgo: 10 })]);
+
+      await truthSocialService.fetchLatestPosts();
+
+      expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['102']);
+      expect(db.truthSocialCursors.get('realdonaldtrump')).toBe('102');
+    });
+
+    it('keeps a separate cursor for every tracked account', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices({ truthSocial: { handles: ['realDonaldTrump', 'JDVance'] } });
+      await db.subscribe(CHANNEL);
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      await db.updateLastSeenTruthSocialPost('JDVance', '500');
+      source.setPosts('realDonaldTrump', [apiPost('100'), apiPost('101')]);
+      source.setPosts('JDVance', [apiPost('500', { account: VANCE_ACCOUNT }), apiPost('501', { account: VANCE_ACCOUNT })]);
+
+      await truthSocialService.fetchLatestPosts();
+
+      expect(discord.postsSentTo(CHANNEL).map(post => `${post.account.username}/${post.id}`))
+        .toEqual(['realDonaldTrump/101', 'JDVance/501']);
+      expect(db.truthSocialCursors.get('jdvance')).toBe('501');
+    });
+
+    it('archives fetched posts and keeps them for filter previews', async () => {
+      const { source, db, recentPosts, truthSocialService } = createTestServices();
+      source.setPosts('realDonaldTrump', [apiPost('100'), apiPost('101')]);
+
+      await truthSocialService.fetchLatestPosts();
+
+      expect([...db.archive.keys()].sort()).toEqual(['100', '101']);
+      expect(recentPosts.get().map(post => post.id).sort()).toEqual(['100', '101']);
+    });
+  });
+
+  describe('ordering and backfill', () => {
+    it('delivers new posts to each channel oldest first', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices();
+      await db.subscribe(CHANNEL);
+      await db.subscribe(OTHER_CHANNEL);
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      source.setPosts('realDonaldTrump', [
+        apiPost('103', { minutesAgo: 1 }),
+        apiPost('101', { minutesAgo: 3 }),
+        apiPost('102', { minutesAgo: 2 }),
+        apiPost('100', { minutesAgo: 4 })
+      ]);
+
+      await truthSocialService.fetchLatestPosts();
+
+      expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['101', '102', '103']);
+      expect(discord.postsSentTo(OTHER_CHANNEL).map(post => post.id)).toEqual(['101', '102', '103']);
+    });
+
+    it('pages back to the cursor so posts made during an outage are not skipped', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices();
+      source.pageSize = 2;
+      await db.subscribe(CHANNEL);
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      source.setPosts('realDonaldTrump', ['100', '101', '102', '103', '104'].map(id => apiPost(id)));
+
+      const result = await truthSocialService.fetchLatestPosts();
+
+      expect(source.requests.map(request => request.maxId)).toEqual([undefined, '103', '101']);
+      expect(result.requests).toBe(3);
+      expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['101', '102', '103', '104']);
+    });
+
+    it('stops paging at the backfill page limit', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices({ truthSocial: { maxBackfillPages: 2 } });
+      source.pageSize = 2;
+      await db.subscribe(CHANNEL);
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      source.setPosts('realDonaldTrump', ['100', '101', '102', '103', '104', '105', '106'].map(id => apiPost(id)));
+
+      await truthSocialService.fetchLatestPosts();
+
+      expect(source.requests).toHaveLength(2);
+      expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['103', '104', '105', '106']);
+      expect(db.truthSocialCursors.get('realdonaldtrump')).toBe('106');
+    });
+
+    it('announces the newest posts after an outage and summarizes the rest', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices({ truthSocial: { announceLimit: 2 } });
+      await db.subscribe(CHANNEL);
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      source.setPosts('realDonaldTrump', ['100', '101', '102', '103', '104', '105'].map(id => apiPost(id)));
+
+      await truthSocialService.fetchLatestPosts();
+
+      expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['104', '105']);
+      const [summary] = discord.ofKind('summary');
+      expect(summary.title).toContain('3 earlier Truth Social posts');
+      expect(summary.posts.map(post => post.id)).toEqual(['103', '102', '101']);
+    });
+  });
+
+  describe('startup modes', () => {
+    const setup = async (startupMode: 'skip' | 'catch-up' | 'digest') => {
+      const services = createTestServices({ truthSocial: { startupMode } });
+      await services.db.subscribe(CHANNEL);
+      await services.db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      services.source.setPosts('realDonaldTrump', ['100', '101', '102'].map(id => apiPost(id)));
+      return services;
+    };
+
+    it('catch-up announces posts made while offline', async () => {
+      const { discord, truthSocialService } = await setup('catch-up');
+      await truthSocialService.fetchLatestPosts(true);
+      expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['101', '102']);
+    });
+
+    it('skip moves the cursor without announcing anything', async () => {
+      const { db, discord, truthSocialService } = await setup('skip');
+      await truthSocialService.fetchLatestPosts(true);
+      expect(discord.sent).toEqual([]);
+      expect(db.truthSocialCursors.get('realdonaldtrump')).toBe('102');
+    });
+
+    it('digest sends one summary per channel', async () => {
+      const { db, discord, truthSocialService } = await setup('digest');
+      await truthSocialService.fetchLatestPosts(true);
+      expect(discord.ofKind('post')).toEqual([]);
+      expect(discord.ofKind('summary')).toEqual([
+        expect.objectContaining({ channelId: CHANNEL, title: expect.stringContaining('2 Truth Social posts missed') })
+      ]);
+      expect(db.truthSocialCursors.get('realdonaldtrump')).toBe('102');
+    });
+
+    it('only applies to the first poll', async () => {
+      const { discord, truthSocialService } = await setup('skip');
+      await truthSocialService.fetchLatestPosts(false);
+      expect(discord.postsSentTo(CHANNEL)).toHaveLength(2);
+    });
+
+    it('still applies to an account whose startup poll failed, but not to one that caught up', async () => {
+      const { source, db, discord, truthSocialService } = await setup('skip');
+      await truthSocialService.fetchLatestPosts(true);
+      source.setPosts('realDonaldTrump', ['100', '101', '102', '103'].map(id => apiPost(id)));
+
+      await truthSocialService.fetchLatestPosts(true);
+
+      expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['103']);
+      expect(db.truthSocialCursors.get('realdonaldtrump')).toBe('103');
+
+      const second = await setup('skip');
+      second.source.failNext(httpError(500));
+      await second.truthSocialService.fetchLatestPosts(true);
+      await second.truthSocialService.fetchLatestPosts(true);
+
+      expect(second.discord.sent).toEqual([]);
+      expect(second.db.truthSocialCursors.get('realdonaldtrump')).toBe('102');
+    });
+  });
+
+  describe('destinations', () => {
+    it('respects each channel\'s filter and skips digest-only channels', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices();
+      await db.subscribe(CHANNEL, { filter: { includeKeywords: ['tariff'] } });
+      await db.subscribe(OTHER_CHANNEL, { delivery: 'digest' });
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      source.setPosts('realDonaldTrump', [
+        apiPost('101', { content: '<p>New TARIFFS on everything</p>' }),
+        apiPost('102', { content: '<p>Happy birthday!</p>' })
+      ]);
+
+      await truthSocialService.fetchLatestPosts();
+
+      expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['101']);
+      expect(discord.postsSentTo(OTHER_CHANNEL)).toEqual([]);
+    });
+
+    it('drops posts the global filter rejects but still moves the cursor', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices({ filter: { excludeReposts: true } });
+      await db.subscribe(CHANNEL);
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      source.setPosts('realDonaldTrump', [apiPost('101', { reblog: apiPost('50') }), apiPost('102')]);
+
+      await truthSocialService.fetchLatestPosts();
+
+      expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['102']);
+      expect(db.truthSocialCursors.get('realdonaldtrump')).toBe('102');
+    });
+
+    it('lets each channel leave out quote posts and replies', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices();
+      await db.subscribe(CHANNEL, { filter: { excludeReplies: true } });
+      await db.subscribe(OTHER_CHANNEL, { filter: { excludeQuotes: true } });
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      const other = apiPost('50', { account: VANCE_ACCOUNT });
+      source.setPosts('realDonaldTrump', [apiPost('101'), quoteOf('102', other, 'Agreed'), replyTo('103', other, 'Thanks')]);
+
+      await truthSocialService.fetchLatestPosts();
+
+      expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['101', '102']);
+      expect(discord.postsSentTo(OTHER_CHANNEL).map(post => post.id)).toEqual(['101', '103']);
+    });
+
+    it('fails open when a channel\'s filter no longer compiles', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices();
+      await db.subscribe(CHANNEL, { filter: { includeRegex: ['(unclosed'] } });
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      source.setPosts('realDonaldTrump', [apiPost('101')]);
+
+      await truthSocialService.fetchLatestPosts();
+
+      expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['101']);
+    });
+
+    it('fills in the parent of a reply from the archive', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices();
+      await db.subscribe(CHANNEL);
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      const parent = apiPost('90', { content: '<p>Part one</p>' });
+      source.setPosts('realDonaldTrump', [parent, apiPost('100')]);
+      await truthSocialService.fetchLatestPosts();
+      source.setPosts('realDonaldTrump', [apiPost('100'), replyTo('101', parent, 'Part two')]);
+      source.pageSize = 1;
+
+      await truthSocialService.fetchLatestPosts();
+
+      const [reply] = discord.postsSentTo(CHANNEL);
+      expect(reply.inReplyTo).toMatchObject({ id: '90', username: 'realDonaldTrump', post: { content: 'Part one' } });
+    });
+
+    it('pings the channel role for breaking posts only', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices();
+      await db.subscribe(CHANNEL, { mentionRoleId: '444444444444444444' });
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      source.setPosts('realDonaldTrump', [
+        apiPost('101', { content: '<p>Nice day in Florida</p>' }),
+        apiPost('102', { content: '<p>BREAKING: signing an executive order</p>' })
+      ]);
+
+      await truthSocialService.fetchLatestPosts();
+
+      expect(discord.ofKind('post').map(message => [message.post.id, message.mentionRoleId])).toEqual([
+        ['101', undefined],
+        ['102', '444444444444444444']
+      ]);
+    });
+
+    it('also sends to the default channel from DISCORD_CHANNEL_ID', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices({ discord: { channelId: OTHER_CHANNEL } });
+      await db.subscribe(CHANNEL);
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      source.setPosts('realDonaldTrump', [apiPost('101', { media_attachments: [imageAttachment('a')] })]);
+
+      await truthSocialService.fetchLatestPosts();
+
+      expect(discord.ofKind('post').map(message => message.channelId).sort()).toEqual([CHANNEL, OTHER_CHANNEL]);
+    });
+  });
+
+  describe('error paths', () => {
+    it('reports a rejected API key to the admins once, and the recovery', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices({ admin: { userIds: [ADMIN] } });
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      source.setPosts('realDonaldTrump', [apiPost('100')]);
+      source.failNext(httpError(401));
+      source.failNext(httpError(401));
+
+      const first = await truthSocialService.fetchLatestPosts();
+      await truthSocialService.fetchLatestPosts();
+
+      expect(first).toEqual({ requests: 1, failed: true, rateLimited: false });
+      expect(discord.ofKind('direct').map(message => message.embed.data.title)).toEqual(['🔴 Fake is rejecting requests']);
+
+      await truthSocialService.fetchLatestPosts();
+
+      const titles = discord.ofKind('direct').map(message => message.embed.data.title);
+      expect(titles).toEqual(['🔴 Fake is rejecting requests', '✅ Recovered: Fake is rejecting requests']);
+      expect(truthSocialService.lastSuccessfulPollAt).not.toBeNull();
+    });
+
+    it('treats a request the API reported as failed like a rejected key', async () => {
+      const { source, discord, truthSocialService } = createTestServices({ admin: { userIds: [ADMIN] } });
+      source.failNext(new SourceRejectedError('Fake', 'You are out of credits'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await truthSocialService.fetchLatestPosts();
+
+      expect(result).toEqual({ requests: 1, failed: true, rateLimited: false });
+      expect(discord.ofKind('direct').map(message => message.embed.data)).toEqual([
+        expect.objectContaining({ title: '🔴 Fake is rejecting requests', description: expect.stringContaining('You are out of credits') })
+      ]);
+    });
+
+    it('keeps an account\'s incident open while the other accounts poll fine', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices({
+        truthSocial: { handles: ['realDonaldTrump', 'JDVance'] },
+        admin: { userIds: [ADMIN] }
+      });
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      await db.updateLastSeenTruthSocialPost('JDVance', '500');
+      source.setPosts('realDonaldTrump', [apiPost('100')]);
+      source.setPosts('JDVance', [apiPost('500', { account: VANCE_ACCOUNT })]);
+      source.failNext(httpError(404));
+
+      await truthSocialService.fetchLatestPosts();
+
+      const titles = discord.ofKind('direct').map(message => message.embed.data.title);
+      expect(titles).toEqual(['🔴 Fake endpoint not found']);
+
+      await truthSocialService.fetchLatestPosts();
+
+      expect(discord.ofKind('direct').map(message => message.embed.data.title))
+        .toEqual(['🔴 Fake endpoint not found', '✅ Recovered: Fake endpoint not found']);
+    });
+
+    it('stops polling other accounts when rate limited and passes on Retry-After', async () => {
+      const { source, truthSocialService } = createTestServices({ truthSocial: { handles: ['realDonaldTrump', 'JDVance'] } });
+      source.failNext(httpError(429, { 'retry-after': '120' }));
+
+      const result = await truthSocialService.fetchLatestPosts();
+
+      expect(result).toEqual({ requests: 1, failed: true, rateLimited: true, retryAfterMs: 120000 });
+      expect(source.requests.map(request => request.handle)).toEqual(['realDonaldTrump']);
+    });
+
+    it('leaves the cursor alone when posts could not be queued, so they are retried', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices();
+      await db.subscribe(CHANNEL);
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      source.setPosts('realDonaldTrump', [apiPost('100'), apiPost('101')]);
+      db.failOutboxWrites = true;
+
+      await truthSocialService.fetchLatestPosts();
+
+      expect(discord.sent).toEqual([]);
+      expect(db.truthSocialCursors.get('realdonaldtrump')).toBe('100');
+
+      db.failOutboxWrites = false;
+      await truthSocialService.fetchLatestPosts();
+
+      expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['101']);
+    });
+
+    it('does not poll when the source is not configured', async () => {
+      const { source, truthSocialService } = createTestServices();
+      source.configured = false;
+
+      const result = await truthSocialService.fetchLatestPosts();
+
+      expect(result).toEqual({ requests: 0, failed: false, rateLimited: false });
+      expect(source.requests).toEqual([]);
+    });
+
+    it('waits for the state store rather than treating every account as new', async () => {
+      const { source, db, discord, truthSocialService } = createTestServices();
+      await db.subscribe(CHANNEL);
+      source.setPosts('realDonaldTrump', [apiPost('100')]);
+      db.isInitialized = false;
+
+      const result = await truthSocialService.fetchLatestPosts();
+
+      expect(result).toEqual({ requests: 0, failed: false, rateLimited: false, deferred: true });
+      expect(source.requests).toEqual([]);
+      expect(discord.sent).toEqual([]);
+    });
+
+    it('keeps the post queued when Discord is down and delivers it once it is back', async () => {
+      const { source, db, discord, outbox, truthSocialService } = createTestServices();
+      await db.subscribe(CHANNEL);
+      await db.updateLastSeenTruthSocialPost('realDonaldTrump', '100');
+      source.setPosts('realDonaldTrump', [apiPost('100'), apiPost('101', { account: TRUMP_ACCOUNT })]);
+      discord.ready = false;
+
+      await truthSocialService.fetchLatestPosts();
+
+      expect(db.truthSocialCursors.get('realdonaldtrump')).toBe('101');
+      const [item] = [...db.outbox.values()];
+      expect(item).toMatchObject({ status: 'pending', attempts: 1 });
+
+      discord.ready = true;
+      db.outbox.set(item._id, { ...item, nextAttemptAt: new Date(0).toISOString() });
+      await outbox.processDue();
+
+      expect(discord.postsSentTo(CHANNEL).map(post => post.id)).toEqual(['101']);
+      expect(db.outbox.get(item._id)).toMatchObject({ status: 'delivered', messageId: 'message-1' });
+    });
+  });
+});